@@ -1,6 +1,9 @@
 import type { InjectionKey, Ref } from 'vue';
 import type { DeskWithContext } from '#vue-airport';
-import type { ActiveItemPluginExports } from '@vue-airport/plugins-base/activeItem';
+import type {
+  ActiveItemPluginEvents,
+  ActiveItemPluginExports,
+} from '@vue-airport/plugins-base/activeItem';
 import type { HistoryPluginExports } from '@vue-airport/plugins-base/history';
 
 export interface PluginItemData {
@@ -14,12 +17,15 @@ export interface PluginItemContext {
   maxHistory: Ref<number>;
 }
 
-export type DeskWithPluginsStack = DeskWithContext<PluginItemData, PluginItemContext> &
+export type DeskWithPluginsStack = DeskWithContext<
+  PluginItemData,
+  PluginItemContext,
+  ActiveItemPluginEvents<PluginItemData>
+> &
   ActiveItemPluginExports<PluginItemData> &
   HistoryPluginExports<PluginItemData>;
 
-export const PLUGIN_DESK_KEY: InjectionKey<Ref<PluginItemData> & PluginItemContext> =
-  Symbol('pluginDesk');
+export const PLUGIN_DESK_KEY: InjectionKey<DeskWithPluginsStack> = Symbol('pluginDesk');
 
 export { default as PluginStack } from './PluginStack.vue';
 export { default as PluginStackListItem } from './PluginStackListItem.vue';
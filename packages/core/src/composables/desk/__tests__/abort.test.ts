@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { createDeskCore, type DeskErrorInfo } from '../desk-core';
+import { HookTimeoutError } from '../../helpers/hook-runner';
+import type { CheckInPlugin } from '../../types';
+
+interface Upload {
+  name: string;
+  done?: boolean;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Plugin whose before-check-in hook takes `ms`, recording the signal it received
+ */
+const createSlowPlugin = (ms: number, signals: AbortSignal[] = [], hookTimeout?: number) =>
+  ({
+    name: 'slow',
+    hookTimeout,
+    install: () => undefined,
+    onBeforeCheckIn: async (_id, _data, _desk, signal) => {
+      signals.push(signal);
+      await sleep(ms);
+      return true;
+    },
+  }) satisfies CheckInPlugin<Upload>;
+
+describe('aborting operations', () => {
+  it('cancels an operation aborted while a hook runs, aborting the hook signal', async () => {
+    const signals: AbortSignal[] = [];
+    const desk = createDeskCore<Upload>({ plugins: [createSlowPlugin(50, signals)] });
+    const controller = new AbortController();
+
+    const checkedIn = desk.checkIn('a', { name: 'a.png' }, undefined, {
+      signal: controller.signal,
+    });
+    await sleep(5);
+    controller.abort();
+
+    expect(await checkedIn).toBe(false);
+    expect(signals[0]?.aborted).toBe(true);
+    expect(desk.has('a')).toBe(false);
+  });
+
+  it('skips operations given an aborted signal', async () => {
+    const desk = createDeskCore<Upload>();
+    await desk.checkIn('a', { name: 'a.png' });
+    const controller = new AbortController();
+    controller.abort();
+    const options = { signal: controller.signal };
+
+    expect(await desk.checkIn('b', { name: 'b.png' }, undefined, options)).toBe(false);
+    expect(await desk.update('a', { done: true }, options)).toBe(false);
+    expect(await desk.checkOut('a', options)).toBe(false);
+    expect(
+      await desk.transaction(async (tx) => {
+        await tx.checkIn('c', { name: 'c.png' });
+      }, options)
+    ).toBe(false);
+    expect([...desk.keys.value]).toEqual(['a']);
+    expect(desk.get('a')?.data.done).toBeUndefined();
+  });
+});
+
+describe('hook timeouts', () => {
+  it('fails the operation when a hook takes longer than hookTimeout', async () => {
+    const desk = createDeskCore<Upload>({ hookTimeout: 10, plugins: [createSlowPlugin(50)] });
+
+    const error = await desk.checkIn('a', { name: 'a.png' }).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(HookTimeoutError);
+    expect((error as HookTimeoutError).timeout).toBe(10);
+    expect(desk.has('a')).toBe(false);
+  });
+
+  it("lets a plugin's hookTimeout override the desk's", async () => {
+    const desk = createDeskCore<Upload>({
+      hookTimeout: 10,
+      plugins: [createSlowPlugin(30, [], 500)],
+    });
+
+    expect(await desk.checkIn('a', { name: 'a.png' })).toBe(true);
+  });
+
+  it('reports timeouts through the error policy', async () => {
+    const errors: [unknown, DeskErrorInfo][] = [];
+    const desk = createDeskCore<Upload>({
+      hookTimeout: 10,
+      errorPolicy: 'isolate',
+      onError: (error, info) => errors.push([error, info]),
+      plugins: [{ name: 'slow', install: () => undefined, onCheckIn: () => sleep(50) }],
+    });
+
+    expect(await desk.checkIn('a', { name: 'a.png' })).toBe(true);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]![0]).toBeInstanceOf(HookTimeoutError);
+    expect(errors[0]![1]).toMatchObject({ plugin: 'slow', hook: 'onCheckIn', id: 'a' });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { createDeskCore } from '../desk-core';
+import { avg, count, max, min, sum } from '../../helpers/registry-aggregate';
+
+interface Line {
+  product: string;
+  price: number;
+  quantity?: number;
+}
+
+describe('desk.aggregate()', () => {
+  it('keeps the values up to date as items change', async () => {
+    const cart = createDeskCore<Line>();
+    await cart.checkIn('a', { product: 'apple', price: 10, quantity: 1 });
+    await cart.checkIn('b', { product: 'bread', price: 5, quantity: 3 });
+    const { values } = cart.aggregate({
+      total: sum('price'),
+      lines: count(),
+      expensive: count((line) => line.price > 6),
+      quantity: avg('quantity'),
+      cheapest: min('price'),
+      dearest: max('price'),
+    });
+
+    expect(values.value).toEqual({
+      total: 15,
+      lines: 2,
+      expensive: 1,
+      quantity: 2,
+      cheapest: 5,
+      dearest: 10,
+    });
+
+    await cart.update('b', { price: 20 });
+    expect(values.value).toMatchObject({ total: 30, expensive: 2, cheapest: 10, dearest: 20 });
+
+    await cart.checkOut('a');
+    expect(values.value).toMatchObject({ total: 20, lines: 1, quantity: 3, cheapest: 20 });
+
+    await cart.clear();
+    expect(values.value).toEqual({
+      total: 0,
+      lines: 0,
+      expensive: 0,
+      quantity: undefined,
+      cheapest: undefined,
+      dearest: undefined,
+    });
+  });
+
+  it('ignores values sum() and avg() cannot use as finite numbers', async () => {
+    const cart = createDeskCore<Line>();
+    await cart.checkIn('a', { product: 'apple', price: 10 });
+    await cart.checkIn('b', { product: 'bread', price: NaN });
+    await cart.checkIn('c', { product: 'cake', price: Infinity });
+    const { values } = cart.aggregate({
+      total: sum('price'),
+      average: avg('price'),
+      perUnit: avg((line) => line.price / (line.quantity ?? 0)),
+    });
+
+    expect(values.value).toEqual({ total: 10, average: 10, perUnit: undefined });
+
+    // The total recovers once the bad values are replaced
+    await cart.update('b', { price: 2 });
+    await cart.checkOut('c');
+    expect(values.value).toMatchObject({ total: 12, average: 6 });
+  });
+
+  it('leaves no rounding residue in sum() and avg()', async () => {
+    const cart = createDeskCore<Line>();
+    const { values } = cart.aggregate({ total: sum('price'), average: avg('price') });
+
+    await cart.checkIn('a', { product: 'apple', price: 1e16 });
+    await cart.checkIn('b', { product: 'bread', price: 1 });
+    await cart.checkIn('c', { product: 'cake', price: 0.1 });
+    await cart.checkOut('a');
+    expect(values.value.total).toBe(1.1);
+
+    await cart.checkIn('d', { product: 'donut', price: 0.2 });
+    await cart.checkOutMany(['b', 'c', 'd']);
+    expect(values.value).toEqual({ total: 0, average: undefined });
+    expect(Object.is(values.value.total, 0)).toBe(true);
+  });
+
+  it('stops updating once stopped', async () => {
+    const cart = createDeskCore<Line>();
+    const aggregation = cart.aggregate({ total: sum('price') });
+
+    await cart.checkIn('a', { product: 'apple', price: 10 });
+    aggregation.stop();
+    await cart.checkIn('b', { product: 'bread', price: 5 });
+
+    expect(aggregation.values.value.total).toBe(10);
+  });
+});
+
+describe('desk.groupBy()', () => {
+  it('moves only the items that changed group', async () => {
+    const cart = createDeskCore<Line>();
+    await cart.checkIn('a', { product: 'apple', price: 10 });
+    await cart.checkIn('b', { product: 'bread', price: 5 });
+    await cart.checkIn('c', { product: 'cake', price: 10 });
+    const { groups } = cart.groupBy('price');
+    const ids = (price: number) => groups.value.get(price)?.map((item) => item.id);
+
+    expect(ids(10)).toEqual(['a', 'c']);
+
+    const before = groups.value;
+    const untouched = groups.value.get(5);
+    await cart.update('a', { price: 7 });
+
+    expect(groups.value).not.toBe(before);
+    expect(groups.value.get(5)).toBe(untouched);
+    expect(ids(10)).toEqual(['c']);
+    expect(ids(7)).toEqual(['a']);
+
+    await cart.checkOut('c');
+    expect(groups.value.has(10)).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { nextTick, watch } from 'vue';
+import { createDeskCore, type DeskEventPayload } from '../desk-core';
+import type { DeskAggregator } from '../../helpers/registry-aggregate';
+
+interface Row {
+  score: number;
+}
+
+const ids = (items: { id: string | number }[]) => items.map((item) => item.id);
+
+describe('batch operations', () => {
+  it('emits one batch event instead of the per-item events', async () => {
+    const desk = createDeskCore<Row>();
+    const events: string[] = [];
+    const batches: DeskEventPayload<Row>[] = [];
+    desk.on('*', (_payload, event) => events.push(event));
+    desk.on('batch', (payload) => batches.push(payload));
+
+    await desk.checkInMany([
+      { id: 'a', data: { score: 1 } },
+      { id: 'b', data: { score: 3 } },
+    ]);
+    await desk.updateMany([{ id: 'a', data: { score: 2 } }]);
+    await desk.checkOutMany(['b', 'missing']);
+    await nextTick();
+
+    expect(events).toEqual(['batch', 'batch', 'batch']);
+    expect(batches.map(({ operation, ids }) => [operation, ids])).toEqual([
+      ['checkIn', ['a', 'b']],
+      ['update', ['a']],
+      ['checkOut', ['b']],
+    ]);
+  });
+
+  it('runs the hooks for each item and skips the cancelled ones', async () => {
+    const calls: (string | number)[] = [];
+    const desk = createDeskCore<Row>({
+      onBeforeCheckIn: (id, data) => {
+        calls.push(id);
+        return data.score >= 0;
+      },
+    });
+
+    await desk.checkInMany([
+      { id: 'a', data: { score: 1 } },
+      { id: 'negative', data: { score: -1 } },
+      { id: 'b', data: { score: 2 } },
+    ]);
+
+    expect(calls).toEqual(['a', 'negative', 'b']);
+    expect(ids(desk.registryList.value)).toEqual(['a', 'b']);
+  });
+
+  it('syncs the registry list and views once, at the end', async () => {
+    const desk = createDeskCore<Row>();
+    const view = desk.view({ sort: [{ key: 'score', order: 'desc' }] });
+    const lengths: number[] = [];
+    watch(desk.registryList, (list) => lengths.push(list.length), { flush: 'sync' });
+
+    await desk.checkInMany([
+      { id: 'a', data: { score: 1 } },
+      { id: 'b', data: { score: 3 } },
+      { id: 'c', data: { score: 2 } },
+    ]);
+
+    expect(lengths).toEqual([3]);
+    expect(ids(view.items.value)).toEqual(['b', 'c', 'a']);
+
+    await desk.updateMany([{ id: 'a', data: { score: 9 } }]);
+    expect(ids(view.items.value)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('hands views and aggregates only the items it changed', async () => {
+    const desk = createDeskCore<Row>();
+    await desk.checkIn('a', { score: 1 });
+    let added = 0;
+    const counting: DeskAggregator<Row, number> = {
+      value: (item) => item.data.score,
+      accumulator: () => ({
+        add: () => added++,
+        remove: () => undefined,
+        result: () => added,
+      }),
+    };
+    desk.aggregate({ added: counting });
+
+    await desk.checkInMany(
+      Array.from({ length: 10 }, (_, index) => ({ id: `b${index}`, data: { score: index } }))
+    );
+
+    // 'a' once when the aggregation started, then each new item once
+    expect(added).toBe(11);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { defineComponent, h, inject, nextTick, ref, type Ref } from 'vue';
+import { mount, flushPromises } from '@vue/test-utils';
+import { defineDesk, getDefinedDesk, getDefinedDeskIds, type DefinedDesk } from '../desk-define';
+import { useCheckIn } from '../../useCheckIn';
+
+interface CartItem {
+  sku: string;
+}
+
+const CartLine = defineComponent({
+  props: { sku: { type: String, required: true } },
+  setup(props) {
+    useCheckIn<CartItem>().checkIn('cart', {
+      autoCheckIn: true,
+      id: props.sku,
+      data: () => ({ sku: props.sku }),
+    });
+    return () => h('li', props.sku);
+  },
+});
+
+describe('defineDesk()', () => {
+  let cart: DefinedDesk<CartItem, { open: Ref<boolean> }> | undefined;
+
+  afterEach(() => cart?.dispose());
+
+  it('is usable outside components, with its context', async () => {
+    cart = defineDesk<CartItem, { open: Ref<boolean> }>('cart', { context: { open: ref(false) } });
+
+    await cart.checkIn('apple', { sku: 'apple' });
+
+    expect(cart.size.value).toBe(1);
+    expect(cart.open.value).toBe(false);
+    expect(getDefinedDesk('cart')).toBe(cart);
+    expect(getDefinedDeskIds()).toContain('cart');
+  });
+
+  it('takes the check-ins of components looking it up by id', async () => {
+    cart = defineDesk<CartItem, { open: Ref<boolean> }>('cart', { context: { open: ref(false) } });
+    const lines = ref(['apple', 'pear']);
+    const wrapper = mount(() =>
+      h(
+        'ul',
+        lines.value.map((sku) => h(CartLine, { sku, key: sku }))
+      )
+    );
+    await flushPromises();
+
+    expect([...cart.keys.value]).toEqual(['apple', 'pear']);
+
+    lines.value = ['pear'];
+    await nextTick();
+    expect(cart.has('apple')).toBe(false);
+
+    wrapper.unmount();
+    await flushPromises();
+    expect(cart.size.value).toBe(0);
+  });
+
+  it('is provided to the app with app.use()', () => {
+    cart = defineDesk<CartItem, { open: Ref<boolean> }>('cart', { context: { open: ref(false) } });
+    const defined = cart;
+    let injected: unknown;
+    let byId: unknown;
+    mount(
+      defineComponent({
+        setup() {
+          injected = inject(defined.injectionKey);
+          byId = inject('cart');
+          return () => h('div');
+        },
+      }),
+      { global: { plugins: [cart] } }
+    );
+
+    expect(injected).toBe(cart);
+    expect(byId).toBe(cart);
+  });
+
+  it('disposes the previous desk when its id is defined again', async () => {
+    const previous = defineDesk<CartItem>('cart');
+    await previous.checkIn('apple', { sku: 'apple' });
+
+    cart = defineDesk<CartItem, { open: Ref<boolean> }>('cart', { context: { open: ref(true) } });
+
+    expect(previous.size.value).toBe(0);
+    expect(getDefinedDesk('cart')).toBe(cart);
+
+    cart.dispose();
+    expect(getDefinedDesk('cart')).toBeUndefined();
+    cart = undefined;
+  });
+});
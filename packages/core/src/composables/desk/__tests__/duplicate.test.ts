@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { defineComponent, h, nextTick } from 'vue';
+import { mount, flushPromises } from '@vue/test-utils';
+import { createDeskCore, type DeskCore, type DeskDuplicatePolicy } from '../desk-core';
+import { useCheckIn } from '../../useCheckIn';
+
+interface Tag {
+  label: string;
+  color?: string;
+}
+
+describe('duplicate ids', () => {
+  it('replaces the item by default', async () => {
+    const desk = createDeskCore<Tag>();
+    await desk.checkIn('a', { label: 'A', color: 'red' });
+
+    expect(await desk.checkIn('a', { label: 'B' })).toBe(true);
+    expect(desk.get('a')?.data).toEqual({ label: 'B' });
+  });
+
+  it("rejects the check-in with 'reject'", async () => {
+    const desk = createDeskCore<Tag>({ onDuplicate: 'reject' });
+    await desk.checkIn('a', { label: 'A' });
+
+    expect(await desk.checkIn('a', { label: 'B' })).toBe(false);
+    expect(desk.get('a')?.data.label).toBe('A');
+  });
+
+  it("merges data and meta with 'merge', keeping the timestamp", async () => {
+    const desk = createDeskCore<Tag>({ onDuplicate: 'merge' });
+    await desk.checkIn('a', { label: 'A', color: 'red' }, { pinned: true });
+    const { timestamp } = desk.get('a')!;
+
+    expect(await desk.checkIn('a', { label: 'B' }, { order: 2 })).toBe(true);
+    expect(desk.get('a')).toMatchObject({
+      data: { label: 'B', color: 'red' },
+      meta: { pinned: true, order: 2 },
+      version: 2,
+      timestamp,
+    });
+  });
+
+  it("checks in under the first free id with 'rename'", async () => {
+    const desk = createDeskCore<Tag>({ onDuplicate: 'rename' });
+    const events: unknown[] = [];
+    desk.on('check-in', (payload) => events.push(payload));
+    await desk.checkIn('a', { label: 'A' });
+
+    expect(desk.resolveId('a')).toBe('a-2');
+    await desk.checkIn('a', { label: 'A2' });
+    await desk.checkIn('a', { label: 'A3' });
+    await nextTick();
+
+    expect([...desk.keys.value]).toEqual(['a', 'a-2', 'a-3']);
+    expect(events[1]).toMatchObject({ id: 'a-2', requestedId: 'a' });
+  });
+
+  it('takes a per-check-in policy over the desk one', async () => {
+    const desk = createDeskCore<Tag>({ onDuplicate: 'reject' });
+    await desk.checkIn('a', { label: 'A' });
+
+    expect(await desk.checkIn('a', { label: 'B' }, undefined, { onDuplicate: 'replace' })).toBe(
+      true
+    );
+    expect(desk.get('a')?.data.label).toBe('B');
+  });
+});
+
+describe('duplicate ids from components', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  const mountTags = (
+    desk: DeskCore<Tag>,
+    tags: { id: string; onDuplicate?: DeskDuplicatePolicy }[]
+  ) => {
+    const TagItem = defineComponent({
+      props: { tagId: { type: String, required: true }, onDuplicate: String },
+      setup(props) {
+        useCheckIn<Tag>().checkIn(desk, {
+          autoCheckIn: true,
+          id: props.tagId,
+          onDuplicate: props.onDuplicate as DeskDuplicatePolicy | undefined,
+          data: async () => ({ label: props.tagId }),
+        });
+        return () => h('i');
+      },
+    });
+    return mount(() => tags.map(({ id, onDuplicate }) => h(TagItem, { tagId: id, onDuplicate })));
+  };
+
+  it("renames a component whose id another one is still checking in with, with 'rename'", async () => {
+    const desk = createDeskCore<Tag>();
+    const wrapper = mountTags(desk, [
+      { id: 'a', onDuplicate: 'rename' },
+      { id: 'a', onDuplicate: 'rename' },
+    ]);
+    await flushPromises();
+
+    expect([...desk.keys.value]).toEqual(['a', 'a-2']);
+
+    wrapper.unmount();
+    await flushPromises();
+    expect(desk.size.value).toBe(0);
+  });
+
+  it('warns in development when two mounted components share an id', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const desk = createDeskCore<Tag>();
+
+    mountTags(desk, [{ id: 'a' }, { id: 'a' }]);
+    await flushPromises();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]![0]).toContain("Id 'a' is already checked in");
+  });
+});
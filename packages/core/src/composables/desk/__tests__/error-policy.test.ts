@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { createDeskCore } from '../desk-core';
+import type { CheckInPlugin } from '../../types';
+
+interface Field {
+  label: string;
+}
+
+const failing = (hook: 'onCheckIn' | 'onUpdate'): CheckInPlugin<Field> => ({
+  name: 'failing',
+  install: () => undefined,
+  [hook]: () => {
+    throw new Error('boom');
+  },
+});
+
+const recording = (calls: Array<string | number>): CheckInPlugin<Field> => ({
+  name: 'recording',
+  install: () => undefined,
+  onCheckIn: (id) => {
+    calls.push(id);
+  },
+});
+
+describe('desk errorPolicy', () => {
+  it("'isolate' reports the error and runs the other hooks", async () => {
+    const calls: Array<string | number> = [];
+    const reported: unknown[] = [];
+    const desk = createDeskCore<Field>({
+      plugins: [failing('onCheckIn'), recording(calls)],
+      errorPolicy: 'isolate',
+      onError: (_, info) => reported.push(info),
+    });
+    const errors: unknown[] = [];
+    desk.on('error', (payload) => errors.push(payload));
+
+    expect(await desk.checkIn('name', { label: 'Name' })).toBe(true);
+    expect(calls).toEqual(['name']);
+    expect(reported).toEqual([{ plugin: 'failing', hook: 'onCheckIn', id: 'name' }]);
+    expect(errors).toEqual([
+      expect.objectContaining({ plugin: 'failing', id: 'name', policy: 'isolate' }),
+    ]);
+  });
+
+  it("'abort' rejects and keeps the changes already applied", async () => {
+    const calls: Array<string | number> = [];
+    const desk = createDeskCore<Field>({ plugins: [failing('onCheckIn'), recording(calls)] });
+
+    await expect(desk.checkIn('name', { label: 'Name' })).rejects.toThrow('boom');
+    expect(calls).toEqual([]);
+    expect(desk.has('name')).toBe(true);
+  });
+
+  describe("'rollback'", () => {
+    it('undoes the operation and emits rollback after its events', async () => {
+      const desk = createDeskCore<Field>({
+        plugins: [failing('onCheckIn')],
+        errorPolicy: 'rollback',
+      });
+      const events: string[] = [];
+      desk.on('*', (_, event) => events.push(event));
+      const rollbacks: unknown[] = [];
+      desk.on('rollback', (payload) => rollbacks.push(payload.ids));
+
+      await expect(desk.checkIn('name', { label: 'Name' })).rejects.toThrow('boom');
+
+      expect(events).toEqual(['check-in', 'error', 'rollback']);
+      expect(rollbacks).toEqual([['name']]);
+      expect(desk.size.value).toBe(0);
+    });
+
+    it('restores updated data and indexes', async () => {
+      const desk = createDeskCore<Field>({
+        plugins: [failing('onUpdate')],
+        errorPolicy: 'rollback',
+        indexes: ['label'],
+      });
+      await desk.checkIn('name', { label: 'Name' });
+
+      await expect(desk.update('name', { label: 'Changed' })).rejects.toThrow('boom');
+
+      expect(desk.get('name')?.data).toEqual({ label: 'Name' });
+      expect(desk.get('name')?.version).toBe(1);
+      expect(desk.findBy('label', 'Changed')).toEqual([]);
+    });
+
+    it('undoes the operation when a middleware throws after it', async () => {
+      const desk = createDeskCore<Field>({
+        errorPolicy: 'rollback',
+        middleware: [
+          async (_, next) => {
+            await next();
+            throw new Error('refused');
+          },
+        ],
+      });
+      const rollbacks: unknown[] = [];
+      desk.on('rollback', (payload) => rollbacks.push(payload.ids));
+
+      await expect(desk.checkIn('name', { label: 'Name' })).rejects.toThrow('refused');
+
+      expect(desk.has('name')).toBe(false);
+      expect(rollbacks).toEqual([['name']]);
+    });
+
+    it('undoes a whole transaction when a hook fails on commit', async () => {
+      const desk = createDeskCore<Field>({
+        plugins: [failing('onUpdate')],
+        errorPolicy: 'rollback',
+      });
+      await desk.checkIn('name', { label: 'Name' });
+      const events: string[] = [];
+      desk.on('*', (_, event) => events.push(event));
+
+      await expect(
+        desk.transaction(async (tx) => {
+          await tx.checkIn('email', { label: 'Email' });
+          await tx.update('name', { label: 'Changed' });
+        })
+      ).rejects.toThrow('boom');
+
+      expect(desk.has('email')).toBe(false);
+      expect(desk.get('name')?.data.label).toBe('Name');
+      // The check-in was announced on commit; the update failed before its event
+      expect(events).toEqual(['check-in', 'error', 'rollback']);
+    });
+  });
+});
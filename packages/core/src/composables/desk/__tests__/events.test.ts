@@ -0,0 +1,68 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { nextTick } from 'vue';
+import { createDeskCore } from '../desk-core';
+
+interface Upload {
+  name: string;
+}
+
+interface UploadEvents {
+  'upload:progress': { id: string; percent: number };
+  'upload:done': { id: string };
+}
+
+const createUploads = () => createDeskCore<Upload, {}, UploadEvents>();
+
+describe('desk events', () => {
+  it('types the payloads of desk and custom events', () => {
+    const desk = createUploads();
+
+    desk.on('upload:progress', (payload) => {
+      expectTypeOf(payload).toEqualTypeOf<{ id: string; percent: number }>();
+    });
+    desk.on('check-in', (payload) => {
+      expectTypeOf(payload.data).toEqualTypeOf<Upload | undefined>();
+    });
+    // @ts-expect-error not an event of this desk
+    desk.on('upload:failed', () => undefined);
+    // @ts-expect-error wrong payload
+    expect(() => desk.emit('upload:done', { id: 1 })).not.toThrow();
+  });
+
+  it('calls namespace and wildcard listeners with the event name', async () => {
+    const desk = createUploads();
+    const calls: string[] = [];
+    desk.on('upload:progress', ({ percent }) => calls.push(`progress ${percent}`));
+    desk.on('upload:*', (_payload, event) => calls.push(`upload:* ${event}`));
+    desk.on('*', (_payload, event) => calls.push(`* ${event}`));
+
+    desk.emit('upload:progress', { id: 'a', percent: 50 });
+    await desk.checkIn('a', { name: 'a.png' });
+    await nextTick();
+
+    expect(calls).toEqual([
+      'progress 50',
+      'upload:* upload:progress',
+      '* upload:progress',
+      '* check-in',
+    ]);
+  });
+
+  it('removes once() listeners after their first call, or when unsubscribed', async () => {
+    const desk = createUploads();
+    const done: string[] = [];
+    const never = () => done.push('never');
+    desk.once('upload:done', ({ id }) => done.push(id));
+    desk.once('upload:*', never);
+    const unsubscribe = desk.once('check-in', never);
+    desk.off('upload:*', never);
+    unsubscribe();
+
+    desk.emit('upload:done', { id: 'a' });
+    desk.emit('upload:done', { id: 'b' });
+    await desk.checkIn('a', { name: 'a.png' });
+    await nextTick();
+
+    expect(done).toEqual(['a']);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { defineComponent, h } from 'vue';
+import { mount, flushPromises } from '@vue/test-utils';
+import { createDeskCore, type DeskCore, type DeskEventPayload } from '../desk-core';
+import { useCheckIn } from '../../useCheckIn';
+
+interface Node {
+  size: number;
+}
+
+describe('desk hierarchy', () => {
+  const createTree = () => {
+    const root = createDeskCore<Node>({ deskId: 'root' });
+    const branch = createDeskCore<Node>({ deskId: 'branch', parent: root, parentItemId: 'a' });
+    const leaf = createDeskCore<Node>({ deskId: 'leaf' });
+    leaf.setParent(branch);
+    return { root, branch, leaf };
+  };
+
+  it('links sub-desks and lists descendants', () => {
+    const { root, branch, leaf } = createTree();
+
+    expect(root.children.value).toHaveLength(1);
+    expect(root.descendants().map((desk) => desk.deskId)).toEqual(['branch', 'leaf']);
+    expect(branch.parentItemId.value).toBe('a');
+    expect(leaf.parent.value?.deskId).toBe('branch');
+  });
+
+  it('refuses to create a cycle', () => {
+    const { root, leaf } = createTree();
+
+    expect(() => root.setParent(leaf)).toThrow(/cycle/);
+    expect(root.parent.value).toBe(null);
+  });
+
+  it('bubbles events to listeners asking for them, with their path', async () => {
+    const { root, leaf } = createTree();
+    const own: Array<DeskEventPayload<Node>> = [];
+    const bubbled: Array<DeskEventPayload<Node>> = [];
+    root.on('check-in', (payload) => own.push(payload));
+    root.on('check-in', (payload) => bubbled.push(payload), { bubbled: true });
+
+    await leaf.checkIn('x', { size: 5 });
+    await root.checkIn('a', { size: 1 });
+
+    expect(own.map((payload) => payload.id)).toEqual(['a']);
+    expect(bubbled.map((payload) => payload.path)).toEqual([['leaf', 'branch', 'root'], ['root']]);
+  });
+
+  it('bubbles through desks provided with a context', async () => {
+    const root = createDeskCore<Node>({ deskId: 'root' });
+    // Provided desks are copies of the core with the context spread in
+    const provided: DeskCore<Node> = { ...root, ...{ label: 'Root' } };
+    const leaf = createDeskCore<Node>({ deskId: 'leaf', parent: provided });
+    const bubbled: Array<string | number | undefined> = [];
+    root.on('check-in', (payload) => bubbled.push(payload.id), { bubbled: true });
+
+    await leaf.checkIn('x', { size: 1 });
+
+    expect(bubbled).toEqual(['x']);
+    expect(root.children.value).toHaveLength(1);
+  });
+
+  it('searches the whole tree', async () => {
+    const { root, leaf } = createTree();
+    await root.checkIn('a', { size: 1 });
+    await leaf.checkIn('x', { size: 5 });
+
+    const matches = root.findInTree((item) => item.data.size > 2);
+
+    expect(matches.map(({ item, path }) => [item.id, path])).toEqual([
+      ['x', ['root', 'branch', 'leaf']],
+    ]);
+  });
+
+  it('unlinks a destroyed desk', () => {
+    const { root, branch, leaf } = createTree();
+
+    branch.destroy();
+
+    expect(root.children.value).toHaveLength(0);
+    expect(leaf.parent.value).toBe(null);
+  });
+
+  it('links desks created by checked-in components', async () => {
+    const RootKey = Symbol('root');
+    let root!: DeskCore<Node>;
+    let branch!: DeskCore<Node>;
+
+    const Child = defineComponent({
+      setup() {
+        const { createDesk, checkIn } = useCheckIn<Node>();
+        branch = createDesk(Symbol('branch'), { deskId: 'branch' }).desk;
+        checkIn(RootKey, { id: 'item-1', autoCheckIn: true, data: { size: 1 } });
+        return () => h('div');
+      },
+    });
+    const Parent = defineComponent({
+      setup() {
+        root = useCheckIn<Node>().createDesk(RootKey, { deskId: 'root' }).desk;
+        return () => h(Child);
+      },
+    });
+
+    const wrapper = mount(Parent);
+    await flushPromises();
+
+    expect(branch.parent.value?.deskId).toBe('root');
+    expect(branch.parentItemId.value).toBe('item-1');
+
+    wrapper.unmount();
+    expect(root.children.value).toHaveLength(0);
+  });
+});
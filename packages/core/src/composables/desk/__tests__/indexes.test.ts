@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { computed } from 'vue';
+import { createDeskCore } from '../desk-core';
+
+interface Product {
+  category: string;
+  sku: string;
+  stock?: number;
+}
+
+describe('desk indexes', () => {
+  const createCatalog = () =>
+    createDeskCore<Product>({ indexes: ['category', { key: 'sku', unique: true }] });
+
+  it('finds items by an indexed value, reactively', async () => {
+    const desk = createCatalog();
+    const fruits = computed(() => desk.findBy('category', 'fruit').map((item) => item.id));
+
+    await desk.checkIn('apple', { category: 'fruit', sku: 'A1' });
+    await desk.checkIn('leek', { category: 'vegetable', sku: 'L1' });
+    expect(fruits.value).toEqual(['apple']);
+
+    await desk.update('leek', { category: 'fruit' });
+    expect(fruits.value).toEqual(['apple', 'leek']);
+
+    await desk.checkOut('apple');
+    expect(fruits.value).toEqual(['leek']);
+  });
+
+  it('follows data swapped by switchItems()', async () => {
+    const desk = createCatalog();
+    await desk.checkIn('first', { category: 'fruit', sku: 'A1' });
+    await desk.checkIn('second', { category: 'fruit', sku: 'B1' });
+
+    await desk.switchItems('first', 'second');
+
+    expect(desk.findOneBy('sku', 'A1')?.id).toBe('second');
+  });
+
+  it('rejects check-ins and updates duplicating a unique value', async () => {
+    const desk = createCatalog();
+    await desk.checkIn('apple', { category: 'fruit', sku: 'A1' });
+    await desk.checkIn('pear', { category: 'fruit', sku: 'P1' });
+
+    expect(await desk.checkIn('copy', { category: 'fruit', sku: 'A1' })).toBe(false);
+    expect(await desk.update('pear', { sku: 'A1' })).toBe(false);
+    // The item itself may keep its value
+    expect(await desk.checkIn('apple', { category: 'fruit', sku: 'A1' })).toBe(true);
+    expect(desk.findOneBy('sku', 'P1')?.id).toBe('pear');
+  });
+
+  it('cancels a transaction that duplicates a unique value', async () => {
+    const desk = createCatalog();
+
+    const committed = await desk.transaction(async (tx) => {
+      await tx.checkIn('apple', { category: 'fruit', sku: 'A1' });
+      await tx.checkIn('copy', { category: 'fruit', sku: 'A1' });
+    });
+
+    expect(committed).toBe(false);
+    expect(desk.findBy('category', 'fruit')).toEqual([]);
+  });
+
+  it('scans the registry for keys that are not indexed', async () => {
+    const desk = createCatalog();
+    await desk.checkIn('apple', { category: 'fruit', sku: 'A1', stock: 3 });
+    await desk.checkIn('pear', { category: 'fruit', sku: 'P1', stock: 0 });
+
+    expect(desk.findBy('stock', 0).map((item) => item.id)).toEqual(['pear']);
+  });
+});
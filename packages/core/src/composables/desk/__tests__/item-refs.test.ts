@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { defineComponent, effectScope, h, ref, watchEffect, type ShallowRef } from 'vue';
+import { mount, flushPromises } from '@vue/test-utils';
+import { createDeskCore, type CheckInItem } from '../desk-core';
+import { useDeskItem } from '../desk-item';
+import { useCheckIn } from '../../useCheckIn';
+
+interface Tab {
+  label: string;
+}
+
+const createTabs = async () => {
+  const desk = createDeskCore<Tab>();
+  await desk.checkIn('a', { label: 'A' });
+  await desk.checkIn('b', { label: 'B' });
+  return desk;
+};
+
+describe('desk.itemRef()', () => {
+  it('only triggers when its own item changes', async () => {
+    const desk = await createTabs();
+    const tab = desk.itemRef('a');
+    const labels: Array<string | undefined> = [];
+    watchEffect(() => labels.push(tab.value?.data.label), { flush: 'sync' });
+
+    await desk.update('b', { label: 'B2' });
+    await desk.move('b', 0);
+    await desk.update('a', { label: 'A2' });
+    await desk.checkOut('a');
+
+    expect(labels).toEqual(['A', 'A2', undefined]);
+  });
+
+  it('updates keys only when items are added or removed', async () => {
+    const desk = await createTabs();
+    let runs = 0;
+    watchEffect(
+      () => {
+        runs++;
+        void desk.keys.value;
+      },
+      { flush: 'sync' }
+    );
+
+    await desk.update('a', { label: 'A2' });
+    await desk.move('a', 1);
+    expect(runs).toBe(1);
+
+    await desk.checkIn('c', { label: 'C' });
+    await desk.checkOutMany(['a', 'b']);
+    expect(runs).toBe(3);
+    expect([...desk.keys.value]).toEqual(['c']);
+  });
+
+  it('shares refs, and releases them with the last scope using them', async () => {
+    const desk = await createTabs();
+    const first = effectScope();
+    const second = effectScope();
+    const fromFirst = first.run(() => desk.itemRef('a'))!;
+    const fromSecond = second.run(() => desk.itemRef('a'))!;
+    expect(fromSecond).toBe(fromFirst);
+
+    first.stop();
+    expect(desk.itemRef('b')).toBe(desk.itemRef('b'));
+    const third = effectScope();
+    expect(third.run(() => desk.itemRef('a'))).toBe(fromFirst);
+
+    second.stop();
+    third.stop();
+    const renewed = desk.itemRef('a');
+    expect(renewed).not.toBe(fromFirst);
+
+    // Released refs no longer follow the item
+    await desk.checkOut('a');
+    expect(fromFirst.value?.id).toBe('a');
+    expect(renewed.value).toBeUndefined();
+  });
+});
+
+describe('useDeskItem()', () => {
+  it('follows the current id', async () => {
+    const desk = await createTabs();
+    const id = ref('a');
+    const scope = effectScope();
+    const labels: Array<string | undefined> = [];
+    scope.run(() => {
+      const tab = useDeskItem(desk, id);
+      watchEffect(() => labels.push(tab.value?.data.label), { flush: 'sync' });
+    });
+
+    id.value = 'b';
+    await desk.update('a', { label: 'A2' });
+    await desk.update('b', { label: 'B2' });
+    scope.stop();
+    await desk.update('b', { label: 'B3' });
+
+    expect(labels).toEqual(['A', 'B', 'B2']);
+  });
+
+  it('returns an empty ref without desk', () => {
+    expect(useDeskItem(null, 'a').value).toBeUndefined();
+  });
+});
+
+describe('useCheckIn() item refs', () => {
+  it('releases the ref of its item on unmount', async () => {
+    const desk = createDeskCore<Tab>();
+    let held: Readonly<ShallowRef<CheckInItem<Tab> | undefined>> | undefined;
+    const wrapper = mount(
+      defineComponent({
+        setup() {
+          held = desk.itemRef('a');
+          const { data } = useCheckIn<Tab>().checkIn(desk, {
+            autoCheckIn: true,
+            id: 'a',
+            data: () => ({ label: 'A' }),
+          });
+          return () => h('span', data.value?.label);
+        },
+      })
+    );
+    await flushPromises();
+    await desk.update('a', { label: 'A2' });
+    await flushPromises();
+    expect(wrapper.text()).toBe('A2');
+
+    wrapper.unmount();
+    await flushPromises();
+
+    expect(desk.itemRef('a')).not.toBe(held);
+  });
+});
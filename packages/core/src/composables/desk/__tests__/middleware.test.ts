@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { createDeskCore, type DeskMiddleware } from '../desk-core';
+
+interface Field {
+  value: string;
+  trimmed?: boolean;
+}
+
+describe('desk middleware', () => {
+  it('wraps operations, inside plugin middleware and around the hooks', async () => {
+    const calls: string[] = [];
+    const trace =
+      (name: string): DeskMiddleware<Field> =>
+      async (ctx, next) => {
+        calls.push(`${name} > ${ctx.operation}`);
+        const result = await next();
+        calls.push(`${name} <`);
+        return result;
+      };
+    const desk = createDeskCore<Field>({
+      plugins: [{ name: 'plugin', install: () => undefined, middleware: trace('plugin') }],
+      middleware: [trace('desk')],
+      onBeforeCheckIn: () => {
+        calls.push('hook');
+        return true;
+      },
+    });
+
+    await desk.checkIn('a', { value: 'a' });
+    await desk.clear();
+
+    expect(calls).toEqual([
+      'plugin > checkIn',
+      'desk > checkIn',
+      'hook',
+      'desk <',
+      'plugin <',
+      'plugin > clear',
+      'desk > clear',
+      'desk <',
+      'plugin <',
+    ]);
+  });
+
+  it('lets middleware change the data', async () => {
+    const desk = createDeskCore<Field>({
+      middleware: [
+        (ctx, next) => {
+          if (ctx.operation === 'checkIn' || ctx.operation === 'update') {
+            ctx.data = { ...ctx.data, value: ctx.data?.value?.trim(), trimmed: true };
+          }
+          return next();
+        },
+      ],
+    });
+
+    await desk.checkIn('a', { value: ' a ' });
+    await desk.update('a', { value: ' b ' });
+
+    expect(desk.get('a')?.data).toEqual({ value: 'b', trimmed: true });
+  });
+
+  it('short-circuits when next() is not called', async () => {
+    const desk = createDeskCore<Field>({
+      middleware: [
+        async (ctx, next) => (ctx.operation === 'checkOut' && ctx.id === 'locked' ? false : next()),
+      ],
+    });
+    await desk.checkIn('locked', { value: 'locked' });
+
+    expect(await desk.checkOut('locked')).toBe(false);
+    expect(desk.has('locked')).toBe(true);
+  });
+
+  it('retries by calling next() again', async () => {
+    let failures = 1;
+    const desk = createDeskCore<Field>({
+      middleware: [
+        async (_ctx, next) => {
+          try {
+            return await next();
+          } catch {
+            return next();
+          }
+        },
+      ],
+      onBeforeCheckIn: () => {
+        if (failures-- > 0) throw new Error('flaky');
+        return true;
+      },
+    });
+
+    expect(await desk.checkIn('a', { value: 'a' })).toBe(true);
+    expect(desk.has('a')).toBe(true);
+  });
+
+  it('rejects the operation when middleware throws', async () => {
+    const desk = createDeskCore<Field>({
+      middleware: [
+        async () => {
+          throw new Error('offline');
+        },
+      ],
+    });
+
+    await expect(desk.checkIn('a', { value: 'a' })).rejects.toThrow('offline');
+    expect(desk.has('a')).toBe(false);
+  });
+
+  it('tells operations run in a transaction', async () => {
+    const seen: boolean[] = [];
+    const desk = createDeskCore<Field>({
+      middleware: [
+        (ctx, next) => {
+          seen.push(ctx.transaction);
+          return next();
+        },
+      ],
+    });
+
+    await desk.checkIn('a', { value: 'a' });
+    await desk.transaction(async (tx) => {
+      await tx.checkIn('b', { value: 'b' });
+    });
+
+    expect(seen).toEqual([false, true]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { defineComponent, h, reactive } from 'vue';
+import { mount, flushPromises } from '@vue/test-utils';
+import { createDeskCore } from '../desk-core';
+import type { MultiCheckInResult } from '../desk-multi';
+import { useCheckIn } from '../../useCheckIn';
+
+interface Header {
+  name: string;
+  size: number;
+}
+
+const mountChild = (setup: () => void) =>
+  mount(
+    defineComponent({
+      setup() {
+        setup();
+        return () => h('i');
+      },
+    })
+  );
+
+describe('checkInMany()', () => {
+  it('checks into every desk with its mapped data', async () => {
+    const available = createDeskCore<Header>();
+    const encoded = createDeskCore<{ label: string }>();
+    const header = reactive({ name: 'accept', size: 1 });
+    let result!: MultiCheckInResult<Header>;
+
+    const wrapper = mountChild(() => {
+      result = useCheckIn<Header>().checkInMany(
+        [
+          { key: available },
+          { key: encoded, map: (data) => ({ label: data.name.toUpperCase() }) },
+          { key: null },
+        ],
+        { autoCheckIn: true, id: 'h', data: () => ({ ...header }), watchData: true }
+      );
+    });
+    await flushPromises();
+
+    expect(available.get('h')?.data).toEqual({ name: 'accept', size: 1 });
+    expect(encoded.get('h')?.data).toEqual({ label: 'ACCEPT' });
+    expect(result.desks[2]).toBeNull();
+
+    header.name = 'range';
+    await flushPromises();
+    expect(encoded.get('h')?.data.label).toBe('RANGE');
+
+    await result.updateSelf({ name: 'host', size: 2 });
+    expect(available.get('h')?.data.name).toBe('host');
+    expect(encoded.get('h')?.data.label).toBe('HOST');
+
+    wrapper.unmount();
+    await flushPromises();
+    expect(available.has('h') || encoded.has('h')).toBe(false);
+  });
+
+  it('checks in to all desks or none', async () => {
+    const open = createDeskCore();
+    const closed = createDeskCore({ onBeforeCheckIn: () => false });
+
+    mountChild(() => {
+      useCheckIn().checkIn([open, closed], { autoCheckIn: true, id: 'z', data: { v: 1 } });
+    });
+    await flushPromises();
+
+    expect(open.has('z')).toBe(false);
+    expect(closed.has('z')).toBe(false);
+  });
+
+  it('ignores twoWay for desks with a map', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const available = createDeskCore<Header>();
+    const encoded = createDeskCore<{ label: string }>();
+    const header = reactive({ name: 'accept', size: 1 });
+
+    mountChild(() => {
+      useCheckIn<Header>().checkInMany(
+        [{ key: available }, { key: encoded, map: (data) => ({ label: data.name }) }],
+        { autoCheckIn: true, id: 'h', data: header, watchData: true, twoWay: true }
+      );
+    });
+    await flushPromises();
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('`twoWay` is ignored'));
+    await encoded.update('h', { label: 'other' });
+    await available.update('h', { size: 2 });
+    await flushPromises();
+
+    expect(header).toEqual({ name: 'accept', size: 2 });
+    expect(encoded.get('h')?.data.label).toBe('other');
+    warn.mockRestore();
+    vi.unstubAllEnvs();
+  });
+});
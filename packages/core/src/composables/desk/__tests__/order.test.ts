@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { createDeskCore } from '../desk-core';
+
+interface Step {
+  label: string;
+}
+
+const ids = (desk: { ordered: { value: Array<{ id: string | number }> } }) =>
+  desk.ordered.value.map((item) => item.id);
+
+describe('desk item positions', () => {
+  it('checks in at the position given', async () => {
+    const desk = createDeskCore<Step>();
+    await desk.checkIn('a', { label: 'A' });
+    await desk.checkIn('c', { label: 'C' });
+    await desk.checkIn('b', { label: 'B' }, undefined, { before: 'c' });
+    await desk.checkIn('first', { label: 'First' }, undefined, { index: 0 });
+
+    expect(ids(desk)).toEqual(['first', 'a', 'b', 'c']);
+    expect(desk.indexOf('b')).toBe(2);
+  });
+
+  it('keeps the position of an item checked in again', async () => {
+    const desk = createDeskCore<Step>();
+    await desk.checkIn('a', { label: 'A' });
+    await desk.checkIn('b', { label: 'B' });
+
+    await desk.checkIn('a', { label: 'A again' });
+
+    expect(ids(desk)).toEqual(['a', 'b']);
+  });
+
+  it('moves and reorders items with their events', async () => {
+    const desk = createDeskCore<Step>();
+    for (const id of ['a', 'b', 'c']) await desk.checkIn(id, { label: id });
+    const events: unknown[] = [];
+    desk.on('move', (payload) => events.push(payload));
+    desk.on('reorder', (payload) => events.push(payload));
+
+    expect(await desk.move('a', -1)).toBe(true);
+    await desk.reorder(['c']);
+
+    expect(ids(desk)).toEqual(['c', 'b', 'a']);
+    expect(events).toEqual([
+      expect.objectContaining({ id: 'a', from: 0, to: 2 }),
+      expect.objectContaining({ ids: ['c', 'b', 'a'] }),
+    ]);
+    expect(await desk.move('unknown', 0)).toBe(false);
+  });
+
+  it('sorts copies in getAll() without changing positions', async () => {
+    const desk = createDeskCore<Step>();
+    await desk.checkIn('b', { label: 'B' });
+    await desk.checkIn('a', { label: 'A' });
+
+    expect(desk.getAll({ sortBy: 'label' }).map((item) => item.id)).toEqual(['a', 'b']);
+    expect(ids(desk)).toEqual(['b', 'a']);
+  });
+
+  it('puts moved items back when a transaction rolls back', async () => {
+    const desk = createDeskCore<Step>();
+    for (const id of ['a', 'b', 'c']) await desk.checkIn(id, { label: id });
+
+    await desk
+      .transaction(async (tx) => {
+        await tx.move('a', 2);
+        await tx.checkOut('b');
+        throw new Error('boom');
+      })
+      .catch(() => undefined);
+
+    expect(ids(desk)).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { createDeskCore, type DeskCore } from '../desk-core';
+import { PluginDependencyError } from '../../helpers/plugin-graph';
+import { withContext } from '../desk-injection';
+import type { CheckInPlugin, CheckInPluginExports } from '../../types';
+
+interface Note {
+  text: string;
+}
+
+/**
+ * Records the ids checked in while installed
+ */
+const createLogPlugin = () => {
+  const cleanups: string[] = [];
+  let log: (string | number)[] = [];
+  const plugin: CheckInPlugin<
+    Note,
+    { entries: () => (string | number)[] },
+    { logged: () => number }
+  > = {
+    name: 'log',
+    install: () => () => {
+      cleanups.push('log');
+      log = [];
+    },
+    onCheckIn: (id) => {
+      log.push(id);
+    },
+    methods: {
+      entries: () => log,
+    },
+    computed: {
+      logged: () => log.length,
+    },
+  };
+  return { plugin, cleanups };
+};
+
+type WithLog = DeskCore<Note> & CheckInPluginExports<ReturnType<typeof createLogPlugin>['plugin']>;
+
+describe('desk.use() / desk.unuse()', () => {
+  it('attaches the members of a plugin installed at runtime, also on context copies', async () => {
+    const desk = createDeskCore<Note>();
+    const copy = withContext(desk, { theme: 'dark' }) as unknown as WithLog;
+    const { plugin } = createLogPlugin();
+    await desk.checkIn('before', { text: 'not logged' });
+
+    expect(desk.use(plugin)).toBe(true);
+    await desk.checkIn('a', { text: 'logged' });
+
+    expect(desk.pluginByName('log')).toBe(plugin);
+    expect(copy.entries()).toEqual(['a']);
+    expect(copy.logged).toBe(1);
+  });
+
+  it('refuses a second plugin with the same name', () => {
+    const desk = createDeskCore<Note>({ plugins: [createLogPlugin().plugin] });
+
+    expect(desk.use(createLogPlugin().plugin)).toBe(false);
+    expect(desk.plugins.value).toHaveLength(1);
+  });
+
+  it('runs the cleanup and detaches the members on unuse()', async () => {
+    const { plugin, cleanups } = createLogPlugin();
+    const desk = createDeskCore<Note>({ plugins: [plugin] }) as WithLog;
+    const copy = withContext(desk) as WithLog;
+    await desk.checkIn('a', { text: 'logged' });
+
+    expect(desk.unuse('log')).toBe(true);
+    await desk.checkIn('b', { text: 'not logged' });
+
+    expect(cleanups).toEqual(['log']);
+    expect(desk.entries).toBeUndefined();
+    expect('logged' in copy).toBe(false);
+    expect(desk.pluginByName('log')).toBeUndefined();
+    expect(desk.unuse('log')).toBe(false);
+  });
+});
+
+describe('plugin dependencies', () => {
+  const createPlugin = (
+    name: string,
+    calls: string[],
+    order: Pick<CheckInPlugin<Note>, 'requires' | 'before' | 'after' | 'conflicts'> = {}
+  ): CheckInPlugin<Note> => ({
+    name,
+    install: () => undefined,
+    onCheckIn: () => {
+      calls.push(name);
+    },
+    ...order,
+  });
+
+  it('runs the hooks in dependency order', async () => {
+    const calls: string[] = [];
+    const desk = createDeskCore<Note>({
+      plugins: [
+        createPlugin('validation', calls, { requires: ['codec'] }),
+        createPlugin('codec', calls),
+      ],
+    });
+    desk.use(createPlugin('audit', calls, { before: ['codec'] }));
+
+    await desk.checkIn('a', { text: 'a' });
+
+    expect(calls).toEqual(['audit', 'codec', 'validation']);
+  });
+
+  it('throws without installing or removing anything', () => {
+    const calls: string[] = [];
+    const desk = createDeskCore<Note>({
+      plugins: [
+        createPlugin('validation', calls, { requires: ['codec'] }),
+        createPlugin('codec', calls),
+      ],
+    });
+
+    expect(() => desk.use(createPlugin('raw', calls, { conflicts: ['codec'] }))).toThrow(
+      PluginDependencyError
+    );
+    expect(() => desk.unuse('codec')).toThrow(
+      "Cannot remove plugin 'codec': required by 'validation'"
+    );
+    expect(desk.plugins.value.map((plugin) => plugin.name)).toEqual(['codec', 'validation']);
+    expect(() =>
+      createDeskCore<Note>({
+        plugins: [createPlugin('validation', calls, { requires: ['codec'] })],
+      })
+    ).toThrow(PluginDependencyError);
+  });
+});
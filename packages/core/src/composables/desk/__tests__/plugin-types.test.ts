@@ -0,0 +1,111 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { ref } from 'vue';
+import { createDeskCore, createDeskCoreFor, type DeskCore } from '../desk-core';
+import type { CheckInPlugin } from '../../types';
+import { useCheckIn } from '../../useCheckIn';
+
+interface Tab {
+  label: string;
+}
+
+interface CounterEvents {
+  'counter:changed': { total: number };
+}
+
+type CounterPlugin<T> = CheckInPlugin<
+  T,
+  { increment: (amount: number) => void },
+  { total: () => number },
+  CounterEvents
+>;
+
+const createCounterPlugin = <T>(): CounterPlugin<T> => {
+  const total = ref(0);
+  let counted: DeskCore<T, any, CounterEvents> | null = null;
+  return {
+    name: 'counter',
+    install: (desk) => {
+      counted = desk;
+      return () => {
+        counted = null;
+      };
+    },
+    methods: {
+      increment: (amount: number) => {
+        total.value += amount;
+        counted?.emit('counter:changed', { total: total.value });
+      },
+    },
+    computed: {
+      total: () => total.value,
+    },
+  };
+};
+
+const createLabelsPlugin = <T extends Tab>(): CheckInPlugin<
+  T,
+  { labels: () => string[] },
+  {},
+  {}
+> => {
+  let labelled: DeskCore<T> | null = null;
+  return {
+    name: 'labels',
+    install: (desk) => {
+      labelled = desk;
+      return undefined;
+    },
+    methods: {
+      labels: () => labelled?.registryList.value.map((item) => item.data.label) ?? [],
+    },
+  };
+};
+
+describe('plugin types', () => {
+  it('types the desk from its plugins when the item type is given first', async () => {
+    const desk = createDeskCoreFor<Tab>()({
+      plugins: [createCounterPlugin<Tab>(), createLabelsPlugin<Tab>()],
+    });
+    const totals: number[] = [];
+    desk.on('counter:changed', ({ total }) => {
+      expectTypeOf(total).toEqualTypeOf<number>();
+      totals.push(total);
+    });
+
+    expectTypeOf(desk.increment).parameters.toEqualTypeOf<[amount: number]>();
+    expectTypeOf(desk.total).toEqualTypeOf<number>();
+    expectTypeOf(desk.labels).returns.toEqualTypeOf<string[]>();
+    expectTypeOf(desk.get('home')?.data).toEqualTypeOf<Tab | undefined>();
+    // @ts-expect-error not added by these plugins
+    expect(desk.getHistory).toBeUndefined();
+
+    await desk.checkIn('home', { label: 'Home' });
+    desk.increment(2);
+    expect(desk.labels()).toEqual(['Home']);
+    expect(desk.total).toBe(2);
+    expect(totals).toEqual([2]);
+  });
+
+  it('types standalone desks and desks inferring the item type', () => {
+    const standalone = useCheckIn<Tab>().standaloneDesk({
+      plugins: [createCounterPlugin<Tab>()],
+    });
+    const inferred = createDeskCore({ plugins: [createCounterPlugin<Tab>()] });
+
+    expectTypeOf(standalone.increment).parameters.toEqualTypeOf<[amount: number]>();
+    expectTypeOf(standalone.total).toEqualTypeOf<number>();
+    expectTypeOf(inferred.increment).parameters.toEqualTypeOf<[amount: number]>();
+    expectTypeOf(inferred.on<'counter:changed'>)
+      .parameter(1)
+      .parameter(0)
+      .toMatchTypeOf<{ total: number }>();
+  });
+
+  it('keeps the base desk type without plugins', () => {
+    const desk = createDeskCoreFor<Tab, { theme: string }>()();
+
+    expectTypeOf(desk).toMatchTypeOf<DeskCore<Tab, { theme: string }>>();
+    // @ts-expect-error no plugin members
+    expect(desk.increment).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { nextTick, ref, type Ref } from 'vue';
+import { createDeskCore } from '../desk-core';
+import type { CheckInPlugin } from '../../types';
+
+interface Product {
+  name: string;
+  label?: Ref<string>;
+  details?: { stock: number };
+  onSelect?: () => void;
+}
+
+interface Shop {
+  page: Ref<number>;
+  format: (price: number) => string;
+}
+
+/**
+ * Desk with a serializable plugin state and a context holding a ref
+ */
+const createShop = () => {
+  const plugin = { state: 1 };
+  const context: Shop = { page: ref(2), format: (price) => `${price} €` };
+  const desk = createDeskCore<Product, Shop>({
+    context,
+    plugins: [
+      {
+        name: 'counter',
+        install: () => undefined,
+        serialize: () => ({ state: plugin.state }),
+        hydrate: (saved) => {
+          plugin.state = (saved as { state: number }).state;
+        },
+      } satisfies CheckInPlugin<Product>,
+    ],
+  });
+  return { desk, plugin, context };
+};
+
+describe('desk.snapshot() / desk.restore()', () => {
+  it('captures a JSON-safe copy of the items, context and plugin state', async () => {
+    const { desk } = createShop();
+    await desk.checkIn('a', { name: 'A', label: ref('new'), onSelect: () => undefined });
+    await desk.checkIn('b', { name: 'B' }, { featured: true });
+
+    const snapshot = desk.snapshot();
+
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+    expect(snapshot.items).toEqual([
+      expect.objectContaining({ id: 'a', data: { name: 'A', label: 'new' }, version: 1 }),
+      expect.objectContaining({ id: 'b', data: { name: 'B' }, meta: { featured: true } }),
+    ]);
+    expect(snapshot.context).toEqual({ page: 2 });
+    expect(snapshot.plugins).toEqual({ counter: { state: 1 } });
+  });
+
+  it('brings the registry, context and plugins back, keeping what was left out', async () => {
+    const { desk, plugin, context } = createShop();
+    const label = ref('new');
+    const onSelect = () => undefined;
+    await desk.checkIn('a', { name: 'A', label, details: { stock: 1 }, onSelect });
+    await desk.checkIn('b', { name: 'B' });
+    const snapshot = desk.snapshot();
+
+    await desk.update('a', { details: { stock: 0 } });
+    label.value = 'sale';
+    await desk.checkOut('b');
+    await desk.checkIn('c', { name: 'C' });
+    context.page.value = 5;
+    plugin.state = 9;
+    const { version } = desk.get('a')!;
+
+    desk.restore(snapshot);
+
+    expect(desk.getAll().map((item) => item.id)).toEqual(['a', 'b']);
+    const restored = desk.get('a')!;
+    expect(restored.data.details).toEqual({ stock: 1 });
+    expect(restored.data.label).toBe(label);
+    expect(label.value).toBe('new');
+    expect(restored.data.onSelect).toBe(onSelect);
+    expect(restored.version).toBe(version + 1);
+    expect(context.page.value).toBe(2);
+    expect(plugin.state).toBe(1);
+  });
+
+  it('emits the per-item events and a restore event', async () => {
+    const { desk } = createShop();
+    await desk.checkIn('a', { name: 'A' });
+    await desk.checkIn('b', { name: 'B' });
+    const snapshot = desk.snapshot();
+    await desk.update('a', { name: 'A2' });
+    await desk.checkOut('b');
+    await nextTick();
+    const events: string[] = [];
+    desk.on('*', (payload, event) => events.push(`${event} ${payload.id ?? payload.ids}`));
+
+    desk.restore(snapshot);
+
+    expect(events).toEqual(['check-in b', 'update a', 'restore b,a']);
+    await nextTick();
+    expect(events).toHaveLength(3);
+  });
+
+  it('throws on a snapshot of another format version', () => {
+    const { desk } = createShop();
+
+    expect(() => desk.restore({ ...desk.snapshot(), version: 99 })).toThrow();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createSSRApp, defineComponent, h, type InjectionKey } from 'vue';
+import { renderToString } from 'vue/server-renderer';
+import { flushPromises } from '@vue/test-utils';
+import type { DeskCore } from '../desk-core';
+import { createDeskSSR, type DeskSSRState } from '../desk-ssr';
+import { useCheckIn } from '../../useCheckIn';
+
+interface Tab {
+  label: string;
+}
+
+const TABS: InjectionKey<DeskCore<Tab>> = Symbol('tabs');
+
+/**
+ * App rendering a tab per label. The tabs check in without an id.
+ */
+const createTabsApp = (labels: string[]) => {
+  let desk: DeskCore<Tab> | undefined;
+  const TabItem = defineComponent({
+    props: { label: { type: String, required: true } },
+    setup(props) {
+      useCheckIn<Tab>().checkIn(TABS, { autoCheckIn: true, data: () => ({ label: props.label }) });
+      return () => h('li', props.label);
+    },
+  });
+  const Tabs = defineComponent({
+    setup() {
+      desk = useCheckIn<Tab>().createDesk(TABS, { deskId: 'tabs' }).desk;
+      return () =>
+        h(
+          'ul',
+          labels.map((label) => h(TabItem, { label, key: label }))
+        );
+    },
+  });
+  return { app: createSSRApp(Tabs), desk: () => desk! };
+};
+
+const renderOnServer = async (labels: string[]) => {
+  const { app } = createTabsApp(labels);
+  const ssr = createDeskSSR();
+  app.use(ssr);
+  const html = await renderToString(app);
+  await flushPromises();
+  return { html, state: JSON.parse(JSON.stringify(ssr.serialize())) as DeskSSRState };
+};
+
+const hydrate = async (
+  labels: string[],
+  { html, state }: Awaited<ReturnType<typeof renderOnServer>>
+) => {
+  const { app, desk } = createTabsApp(labels);
+  app.use(createDeskSSR(state));
+  const el = document.createElement('div');
+  el.innerHTML = html;
+  app.mount(el);
+  await flushPromises();
+  return desk();
+};
+
+const labels = (desk: DeskCore<Tab>) => desk.registryList.value.map((item) => item.data.label);
+
+describe('SSR round trip', () => {
+  it('adopts the server items of children checking in without an id', async () => {
+    // An earlier request on the same server doesn't shift the ids
+    await renderOnServer(['x', 'y', 'z']);
+    const rendered = await renderOnServer(['a', 'b']);
+    const serverIds = rendered.state.tabs[0].items.map((item) => item.id);
+
+    const desk = await hydrate(['a', 'b'], rendered);
+
+    expect(labels(desk)).toEqual(['a', 'b']);
+    expect(desk.registryList.value.map((item) => item.id)).toEqual(serverIds);
+    expect(serverIds.some((id) => desk.isHydrated(id))).toBe(false);
+  });
+
+  it('checks out the server items no child claims once mounted', async () => {
+    const rendered = await renderOnServer(['a', 'b', 'c']);
+
+    const desk = await hydrate(['a', 'b'], rendered);
+
+    expect(labels(desk)).toEqual(['a', 'b']);
+  });
+});
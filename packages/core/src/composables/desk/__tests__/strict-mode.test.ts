@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { defineComponent, h, type InjectionKey } from 'vue';
+import { mount } from '@vue/test-utils';
+import type { DeskCore } from '../desk-core';
+import { DeskNotFoundError, setStrictMode, useDeskOrThrow } from '../desk-lookup';
+import { defineDesk } from '../desk-define';
+import { useCheckIn } from '../../useCheckIn';
+
+const TABS: InjectionKey<DeskCore> = Symbol('tabs');
+const OTHER: InjectionKey<DeskCore> = Symbol('other');
+
+/**
+ * Mounts `setup` in a <TabItem> under a component providing OTHER.
+ * Returns the error thrown during setup, if any.
+ */
+const setupError = (setup: () => void): unknown => {
+  const TabItem = defineComponent({
+    name: 'TabItem',
+    setup() {
+      setup();
+      return () => h('i');
+    },
+  });
+  const Parent = defineComponent({
+    setup() {
+      useCheckIn().createDesk(OTHER, { deskId: 'other-desk' });
+      return () => h(TabItem);
+    },
+  });
+  try {
+    mount(Parent);
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+};
+
+describe('missing desks', () => {
+  afterEach(() => setStrictMode(false));
+
+  it('returns no desk unless required', () => {
+    let desk: unknown;
+    expect(setupError(() => (desk = useCheckIn().checkIn(TABS).desk))).toBeUndefined();
+    expect(desk).toBeNull();
+  });
+
+  it('throws with the desks available when required', () => {
+    const cart = defineDesk('cart');
+    const error = setupError(() => useCheckIn().checkIn(TABS, { required: true }));
+
+    expect(error).toBeInstanceOf(DeskNotFoundError);
+    expect((error as DeskNotFoundError).message).toContain('<TabItem>');
+    expect((error as DeskNotFoundError).available).toEqual([
+      "Symbol(other) (desk 'other-desk')",
+      "'cart' (defined)",
+    ]);
+    cart.dispose();
+  });
+
+  it('requires every desk in strict mode, unless opted out', () => {
+    setStrictMode();
+
+    expect(setupError(() => useCheckIn().checkIn(TABS))).toBeInstanceOf(DeskNotFoundError);
+    expect(setupError(() => useCheckIn().checkIn(null))).toBeInstanceOf(DeskNotFoundError);
+    expect(setupError(() => useCheckIn().checkIn(TABS, { required: false }))).toBeUndefined();
+    expect(setupError(() => useCheckIn().checkIn(null, { required: false }))).toBeUndefined();
+  });
+
+  it('useDeskOrThrow() returns the desk or throws', () => {
+    let desk: DeskCore | undefined;
+
+    expect(setupError(() => useDeskOrThrow(TABS))).toBeInstanceOf(DeskNotFoundError);
+    expect(setupError(() => (desk = useDeskOrThrow(OTHER)))).toBeUndefined();
+    expect(desk?.deskId).toBe('other-desk');
+  });
+});
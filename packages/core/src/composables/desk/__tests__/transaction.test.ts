@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest';
+import { createDeskCore, type DeskCore } from '../desk-core';
+
+interface Field {
+  label: string;
+  order?: number;
+}
+
+const ids = (desk: { registryList: { value: Array<{ id: string | number }> } }) =>
+  desk.registryList.value.map((item) => item.id);
+
+describe('desk.transaction()', () => {
+  it('applies changes right away and emits their events on commit', async () => {
+    const desk = createDeskCore<Field>();
+    const events: string[] = [];
+    desk.on('*', (payload, event) => events.push(`${event}:${payload.id}`));
+
+    const committed = await desk.transaction(async (tx) => {
+      await tx.checkIn('name', { label: 'Name' });
+      await tx.checkIn('email', { label: 'Email' });
+      // Reads inside the transaction see its changes
+      expect(tx.has('email')).toBe(true);
+      expect(events).toEqual([]);
+      await tx.update('name', { label: 'Full name' });
+    });
+
+    expect(committed).toBe(true);
+    expect(events).toEqual(['check-in:name', 'check-in:email', 'update:name']);
+    expect(desk.get('name')?.data.label).toBe('Full name');
+  });
+
+  it('undoes every change when a before-hook cancels, without emitting', async () => {
+    const desk = createDeskCore<Field>({ onBeforeCheckIn: (id) => id !== 'forbidden' });
+    await desk.checkIn('name', { label: 'Name' });
+    await desk.checkIn('email', { label: 'Email' });
+    const events: string[] = [];
+    desk.on('*', (_, event) => events.push(event));
+
+    const committed = await desk.transaction(async (tx) => {
+      await tx.update('name', { label: 'Changed' });
+      await tx.checkOut('email');
+      await tx.checkIn('phone', { label: 'Phone' });
+      await tx.reorder(['phone', 'name']);
+      await tx.checkIn('forbidden', { label: 'Nope' });
+    });
+
+    expect(committed).toBe(false);
+    expect(events).toEqual([]);
+    expect(ids(desk)).toEqual(['name', 'email']);
+    expect(desk.get('name')?.data.label).toBe('Name');
+  });
+
+  it('rethrows errors from the callback after rolling back', async () => {
+    const desk = createDeskCore<Field>();
+
+    await expect(
+      desk.transaction(async (tx) => {
+        await tx.checkIn('name', { label: 'Name' });
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(desk.has('name')).toBe(false);
+  });
+
+  it('keeps the data objects children hold when rolling back updates', async () => {
+    const desk = createDeskCore<Field>();
+    const data = { label: 'Name', order: 1 };
+    await desk.checkIn('name', data);
+
+    await desk
+      .transaction(async (tx) => {
+        await tx.update('name', { label: 'Changed', order: 2 });
+        await tx.switchItems('name', 'name');
+        throw new Error('boom');
+      })
+      .catch(() => undefined);
+
+    expect(desk.get('name')?.data).toBe(data);
+    expect(data).toEqual({ label: 'Name', order: 1 });
+  });
+
+  it('keeps changes made by other operations while it was open', async () => {
+    const desk = createDeskCore<Field>();
+    await desk.checkIn('name', { label: 'Name' });
+    await desk.checkIn('email', { label: 'Email' });
+
+    let pause!: () => void;
+    let release!: () => void;
+    const paused = new Promise<void>((resolve) => (pause = resolve));
+    const released = new Promise<void>((resolve) => (release = resolve));
+
+    const transaction = desk.transaction(async (tx) => {
+      await tx.checkIn('phone', { label: 'Phone' });
+      await tx.move('name', 2);
+      pause();
+      await released;
+      await tx.checkIn('forbidden', { label: 'Nope' });
+      throw new Error('boom');
+    });
+
+    // Outside of the transaction, while it waits
+    await paused;
+    await desk.checkIn('address', { label: 'Address' });
+    await desk.checkOut('email');
+    release();
+
+    await expect(transaction).rejects.toThrow('boom');
+    expect(ids(desk)).toEqual(['name', 'address']);
+    expect(desk.has('email')).toBe(false);
+  });
+
+  it('restores hydrated items and indexes', async () => {
+    const source = createDeskCore<Field>();
+    await source.checkIn('name', { label: 'Name' });
+    const desk = createDeskCore<Field>({
+      indexes: ['label'],
+      initialState: source.snapshot(),
+    });
+
+    await desk
+      .transaction(async (tx) => {
+        // Adopts the hydrated item
+        await tx.checkIn('name', { label: 'Renamed' });
+        expect(desk.isHydrated('name')).toBe(false);
+        throw new Error('boom');
+      })
+      .catch(() => undefined);
+
+    expect(desk.isHydrated('name')).toBe(true);
+    expect(desk.findBy('label', 'Name').map((item) => item.id)).toEqual(['name']);
+    expect(desk.findBy('label', 'Renamed')).toEqual([]);
+  });
+
+  it('rolls back when its signal is aborted', async () => {
+    const desk = createDeskCore<Field>();
+    const controller = new AbortController();
+
+    const committed = await desk.transaction(
+      async (tx) => {
+        await tx.checkIn('name', { label: 'Name' });
+        controller.abort();
+      },
+      { signal: controller.signal }
+    );
+
+    expect(committed).toBe(false);
+    expect(desk.size.value).toBe(0);
+  });
+
+  it('runs transactions one after the other', async () => {
+    const desk = createDeskCore<Field>();
+    const steps: string[] = [];
+
+    await Promise.all([
+      desk.transaction(async (tx) => {
+        steps.push('first:start');
+        await tx.checkIn('name', { label: 'Name' });
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        steps.push('first:end');
+      }),
+      desk.transaction(async (tx) => {
+        steps.push('second:start');
+        expect(tx.has('name')).toBe(true);
+        steps.push('second:end');
+      }),
+    ]);
+
+    expect(steps).toEqual(['first:start', 'first:end', 'second:start', 'second:end']);
+  });
+});
+
+describe('nested transactions', () => {
+  it('runs a transaction started in the callback right away', async () => {
+    const desk = createDeskCore<Field>();
+    const events: string[] = [];
+    desk.on('*', (payload, event) => events.push(`${event}:${payload.id}`));
+
+    const committed = await desk.transaction(async (tx) => {
+      await tx.checkIn('name', { label: 'Name' });
+      expect(
+        await desk.transaction(async (nested) => {
+          expect(nested.has('name')).toBe(true);
+          await nested.checkIn('email', { label: 'Email' });
+        })
+      ).toBe(true);
+      // Nested events wait for the outer commit
+      expect(events).toEqual([]);
+    });
+
+    expect(committed).toBe(true);
+    expect(events).toEqual(['check-in:name', 'check-in:email']);
+    // Later transactions are not blocked
+    expect(
+      await desk.transaction(async (tx) => {
+        await tx.checkOut('name');
+      })
+    ).toBe(true);
+    expect(ids(desk)).toEqual(['email']);
+  });
+
+  it('runs a transaction started by a plugin hook during commit', async () => {
+    const desk: DeskCore<Field> = createDeskCore<Field>({
+      plugins: [
+        {
+          name: 'audit',
+          install: () => undefined,
+          onCheckIn: async (id) => {
+            if (id === 'name') {
+              await desk.transaction(async (tx) => {
+                await tx.checkIn('log', { label: 'Log' });
+              });
+            }
+          },
+        },
+      ],
+    });
+
+    await desk.transaction(async (tx) => {
+      await tx.checkIn('name', { label: 'Name' });
+    });
+
+    expect(ids(desk)).toEqual(['name', 'log']);
+    expect(
+      await desk.transaction(async (tx) => {
+        await tx.checkOut('log');
+      })
+    ).toBe(true);
+  });
+
+  it('undoes only the nested changes when the nested transaction fails', async () => {
+    const desk = createDeskCore<Field>();
+
+    const committed = await desk.transaction(async (tx) => {
+      await tx.checkIn('name', { label: 'Name' });
+      await expect(
+        desk.transaction(async (nested) => {
+          await nested.update('name', { label: 'Changed' });
+          await nested.checkIn('email', { label: 'Email' });
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+    });
+
+    expect(committed).toBe(true);
+    expect(ids(desk)).toEqual(['name']);
+    expect(desk.get('name')?.data.label).toBe('Name');
+  });
+
+  it('undoes the nested changes with the outer transaction', async () => {
+    const desk = createDeskCore<Field>({ onBeforeCheckIn: (id) => id !== 'forbidden' });
+    const events: string[] = [];
+    desk.on('*', (_, event) => events.push(event));
+
+    const committed = await desk.transaction(async (tx) => {
+      await desk.transaction(async (nested) => {
+        await nested.checkIn('email', { label: 'Email' });
+      });
+      await tx.checkIn('forbidden', { label: 'Nope' });
+    });
+
+    expect(committed).toBe(false);
+    expect(events).toEqual([]);
+    expect(desk.size.value).toBe(0);
+  });
+});
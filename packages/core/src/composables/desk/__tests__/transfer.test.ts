@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { createDeskCore, type DeskDuplicatePolicy } from '../desk-core';
+
+interface Task {
+  title: string;
+  done?: boolean;
+}
+
+const ids = (desk: { registryList: { value: Array<{ id: string | number }> } }) =>
+  desk.registryList.value.map((item) => item.id);
+
+describe('desk.transferTo()', () => {
+  it('moves an item with its meta and emits one transfer event per desk', async () => {
+    const afterCheckIn: Array<string | number> = [];
+    const todo = createDeskCore<Task>({ deskId: 'todo' });
+    const done = createDeskCore<Task>({
+      deskId: 'done',
+      onCheckIn: (id) => {
+        afterCheckIn.push(id);
+      },
+    });
+    await todo.checkIn('write', { title: 'Write' }, { priority: 1 });
+    await done.checkIn('read', { title: 'Read' });
+
+    const events: string[] = [];
+    todo.on('*', (payload, event) => events.push(`todo:${event}:${payload.id}`));
+    done.on('*', (payload, event) => events.push(`done:${event}:${payload.id}`));
+
+    const moved = await todo.transferTo(done, 'write', {
+      as: 'written',
+      meta: { at: 1 },
+      index: 0,
+    });
+
+    expect(moved).toBe(true);
+    expect(todo.has('write')).toBe(false);
+    expect(ids(done)).toEqual(['written', 'read']);
+    expect(done.get('written')?.meta).toEqual({ priority: 1, at: 1 });
+    expect(events).toEqual(['todo:transfer:write', 'done:transfer:write']);
+    expect(afterCheckIn).toEqual(['read', 'written']);
+  });
+
+  it('moves nothing when a before-hook of either desk cancels', async () => {
+    const todo = createDeskCore<Task>({ deskId: 'todo' });
+    const done = createDeskCore<Task>({ deskId: 'done', onBeforeCheckIn: () => false });
+    await todo.checkIn('write', { title: 'Write' });
+
+    expect(await todo.transferTo(done, 'write')).toBe(false);
+    expect(todo.has('write')).toBe(true);
+    expect(done.size.value).toBe(0);
+    // Not a transfer to another desk
+    expect(await todo.transferTo(todo, 'write')).toBe(false);
+  });
+
+  it('moves nothing when the data breaks a unique index of the target', async () => {
+    const todo = createDeskCore<Task>({ deskId: 'todo' });
+    const done = createDeskCore<Task>({
+      deskId: 'done',
+      indexes: [{ key: 'title', unique: true }],
+    });
+    await todo.checkIn('write', { title: 'Write' });
+    await done.checkIn('other', { title: 'Write' });
+
+    expect(await todo.transferTo(done, 'write')).toBe(false);
+    expect(todo.has('write')).toBe(true);
+    expect(ids(done)).toEqual(['other']);
+  });
+
+  describe("applies the target's onDuplicate", () => {
+    const setup = async (onDuplicate: DeskDuplicatePolicy) => {
+      const todo = createDeskCore<Task>({ deskId: 'todo' });
+      const done = createDeskCore<Task>({ deskId: 'done', onDuplicate });
+      await todo.checkIn('write', { title: 'Write', done: true });
+      await done.checkIn('write', { title: 'Write first' }, { author: 'me' });
+      await done.checkIn('read', { title: 'Read' });
+      return { todo, done };
+    };
+
+    it("'reject' cancels the transfer", async () => {
+      const { todo, done } = await setup('reject');
+
+      expect(await todo.transferTo(done, 'write')).toBe(false);
+      expect(todo.has('write')).toBe(true);
+      expect(done.get('write')?.data).toEqual({ title: 'Write first' });
+    });
+
+    it("'rename' checks the item in under a free id", async () => {
+      const { todo, done } = await setup('rename');
+      const renamed = done.resolveId('write', 'rename');
+      const transfers: unknown[] = [];
+      done.on('transfer', (payload) => transfers.push(payload));
+
+      expect(await todo.transferTo(done, 'write')).toBe(true);
+      expect(ids(done)).toEqual(['write', 'read', renamed]);
+      expect(done.get('write')?.data.title).toBe('Write first');
+      expect(transfers).toEqual([expect.objectContaining({ from: 'write', to: renamed })]);
+    });
+
+    it("'merge' merges into the item in place", async () => {
+      const { todo, done } = await setup('merge');
+      const updates: unknown[] = [];
+      done.on('update', (payload) => updates.push(payload));
+
+      expect(await todo.transferTo(done, 'write', { meta: { moved: true } })).toBe(true);
+      expect(ids(done)).toEqual(['write', 'read']);
+      expect(done.get('write')?.data).toEqual({ title: 'Write', done: true });
+      expect(done.get('write')?.meta).toEqual({ author: 'me', moved: true });
+      expect(done.get('write')?.version).toBe(2);
+      expect(updates).toEqual([
+        expect.objectContaining({ id: 'write', data: { title: 'Write', done: true } }),
+      ]);
+    });
+
+    it("'replace' replaces the item and emits an update", async () => {
+      const { todo, done } = await setup('replace');
+      const updates: unknown[] = [];
+      done.on('update', (payload) => updates.push(payload));
+
+      expect(await todo.transferTo(done, 'write')).toBe(true);
+      expect(done.get('write')?.data).toEqual({ title: 'Write', done: true });
+      expect(done.get('write')?.meta).toBeUndefined();
+      expect(done.findBy('title', 'Write first')).toEqual([]);
+      expect(updates).toHaveLength(1);
+    });
+  });
+
+  it('runs the middleware of both desks', async () => {
+    const calls: string[] = [];
+    const todo = createDeskCore<Task>({
+      deskId: 'todo',
+      middleware: [
+        (ctx, next) => {
+          calls.push(`todo ${ctx.operation} ${ctx.id} ${ctx.target?.deskId}`);
+          return next();
+        },
+      ],
+    });
+    const done = createDeskCore<Task>({
+      deskId: 'done',
+      middleware: [
+        (ctx, next) => {
+          calls.push(`done ${ctx.operation} ${ctx.id} ${ctx.source?.deskId}`);
+          // Refuses drafts
+          return (ctx.data as Task).title.startsWith('Draft') ? Promise.resolve(false) : next();
+        },
+      ],
+    });
+    await todo.checkIn('write', { title: 'Write' });
+    await todo.checkIn('draft', { title: 'Draft' });
+    calls.length = 0;
+
+    expect(await todo.transferTo(done, 'write', { as: 'written' })).toBe(true);
+    expect(await todo.transferTo(done, 'draft')).toBe(false);
+
+    expect(calls).toEqual([
+      'todo transfer write done',
+      'done transfer written todo',
+      'todo transfer draft done',
+      'done transfer draft todo',
+    ]);
+    expect(ids(todo)).toEqual(['draft']);
+    expect(ids(done)).toEqual(['written']);
+  });
+
+  it("undoes the move on both desks when a hook fails with the 'rollback' policy", async () => {
+    const todo = createDeskCore<Task>({ deskId: 'todo' });
+    const done = createDeskCore<Task>({
+      deskId: 'done',
+      errorPolicy: 'rollback',
+      plugins: [
+        {
+          name: 'failing',
+          install: () => undefined,
+          onTransfer: () => {
+            throw new Error('boom');
+          },
+        },
+      ],
+    });
+    await todo.checkIn('a', { title: 'A' });
+    await todo.checkIn('b', { title: 'B' });
+    const events: string[] = [];
+    todo.on('*', (payload, event) => events.push(`todo:${event}:${payload.id ?? payload.ids}`));
+    done.on('*', (payload, event) => events.push(`done:${event}:${payload.id ?? payload.ids}`));
+
+    await expect(todo.transferTo(done, 'a')).rejects.toThrow('boom');
+
+    expect(ids(todo)).toEqual(['a', 'b']);
+    expect(done.size.value).toBe(0);
+    expect(events).toEqual([
+      'todo:transfer:a',
+      'done:transfer:a',
+      'done:error:a',
+      'done:rollback:a',
+      'todo:rollback:a',
+    ]);
+  });
+});
+
+describe('desk.transferMany()', () => {
+  it('keeps the relative order of the items it moves', async () => {
+    const todo = createDeskCore<Task>({ deskId: 'todo' });
+    const done = createDeskCore<Task>({ deskId: 'done' });
+    await todo.checkIn('a', { title: 'A' });
+    await todo.checkIn('b', { title: 'B' });
+    await done.checkIn('c', { title: 'C' });
+
+    expect(await todo.transferMany(done, ['a', 'b', 'missing'], { index: 0 })).toEqual(['a', 'b']);
+    expect(ids(done)).toEqual(['a', 'b', 'c']);
+    expect(todo.size.value).toBe(0);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { defineComponent, h, nextTick, ref, type InjectionKey } from 'vue';
+import { mount, flushPromises } from '@vue/test-utils';
+import type { DeskCore } from '../desk-core';
+import type { DeskOrderMode } from '../../helpers/component-order';
+import { useCheckIn } from '../../useCheckIn';
+
+interface Tab {
+  label: string;
+}
+
+const TABS: InjectionKey<DeskCore<Tab>> = Symbol('tabs');
+
+/**
+ * Tabs rendered by a v-for, whose data resolves when `resolve(id)` is called
+ */
+const mountTabs = (order: DeskOrderMode, initial: string[]) => {
+  let desk!: DeskCore<Tab>;
+  const list = ref(initial);
+  const resolvers = new Map<string, (data: Tab) => void>();
+  const resolve = async (...ids: string[]) => {
+    ids.forEach((id) => resolvers.get(id)!({ label: id }));
+    await flushPromises();
+  };
+
+  const TabItem = defineComponent({
+    props: { id: { type: String, required: true } },
+    setup(props) {
+      useCheckIn<Tab>().checkIn(TABS, {
+        autoCheckIn: true,
+        id: props.id,
+        data: () => new Promise<Tab>((done) => resolvers.set(props.id, done)),
+      });
+      return () => h('li', props.id);
+    },
+  });
+  const Tabs = defineComponent({
+    setup(_, { slots }) {
+      desk = useCheckIn<Tab>().createDesk(TABS, { order }).desk;
+      return () => h('ul', slots.default?.());
+    },
+  });
+  const wrapper = mount(
+    defineComponent({
+      setup: () => () =>
+        h(Tabs, null, {
+          default: () => list.value.map((id) => h(TabItem, { key: id, id })),
+        }),
+    })
+  );
+
+  const ids = () => desk.ordered.value.map((item) => item.id);
+  return { wrapper, list, resolve, ids, desk: () => desk };
+};
+
+describe("'mount' and 'tree' order", () => {
+  it("'mount' follows the creation order of the components", async () => {
+    const { resolve, ids } = mountTabs('mount', ['a', 'b', 'c']);
+
+    await resolve('b', 'c', 'a');
+
+    expect(ids()).toEqual(['a', 'b', 'c']);
+  });
+
+  it("'tree' follows the template, and re-sorts when a v-for moves components", async () => {
+    const { resolve, ids, list, desk } = mountTabs('tree', ['a', 'b', 'c']);
+    await resolve('c', 'a', 'b');
+    expect(ids()).toEqual(['a', 'b', 'c']);
+
+    list.value = ['c', 'a', 'b'];
+    await nextTick();
+    await flushPromises();
+    expect(ids()).toEqual(['c', 'a', 'b']);
+
+    list.value = ['c', 'd', 'a', 'b'];
+    await nextTick();
+    await resolve('d');
+    expect(ids()).toEqual(['c', 'd', 'a', 'b']);
+
+    // Items without a component go after the component items
+    await desk().checkIn('manual', { label: 'Manual' });
+    expect(ids()).toEqual(['c', 'd', 'a', 'b', 'manual']);
+  });
+
+  it('inserts among many components in template order', async () => {
+    const initial = Array.from({ length: 40 }, (_, index) => `tab-${index}`);
+    const { resolve, ids } = mountTabs('tree', initial);
+
+    await resolve(...[...initial].reverse());
+
+    expect(ids()).toEqual(initial);
+  });
+
+  it('stops re-sorting once the components are unmounted', async () => {
+    const { resolve, ids, list, desk } = mountTabs('tree', ['a', 'b']);
+    await resolve('a', 'b');
+    const reorders: unknown[] = [];
+    desk().on('reorder', (payload) => reorders.push(payload));
+
+    list.value = [];
+    await nextTick();
+    await flushPromises();
+    expect(ids()).toEqual([]);
+
+    await desk().checkIn('manual', { label: 'Manual' });
+    list.value = ['x'];
+    await nextTick();
+    await flushPromises();
+    expect(reorders).toEqual([]);
+  });
+});
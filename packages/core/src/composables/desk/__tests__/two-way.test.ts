@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { defineComponent, h, nextTick, reactive } from 'vue';
+import { mount, flushPromises } from '@vue/test-utils';
+import { createDeskCore, type DeskCore } from '../desk-core';
+import type { CheckInOptions, CheckInResult } from '../desk-child';
+import { useCheckIn } from '../../useCheckIn';
+
+interface Todo {
+  label: string;
+  done: boolean;
+}
+
+const mountChild = (desk: DeskCore<Todo>, options: CheckInOptions<Todo>) => {
+  let result!: CheckInResult<Todo>;
+  const Child = defineComponent({
+    setup() {
+      result = useCheckIn<Todo>().checkIn(desk, { autoCheckIn: true, id: 'todo', ...options });
+      return () => h('i');
+    },
+  });
+  const wrapper = mount(Child);
+  return { wrapper, result: () => result };
+};
+
+describe('checkIn() data', () => {
+  it('reads the registry entry and updates it when assigned', async () => {
+    const desk = createDeskCore<Todo>();
+    const { result } = mountChild(desk, {
+      data: () => ({ label: 'Write', done: false }),
+      meta: { list: 'home' },
+    });
+    await flushPromises();
+
+    expect(result().data.value).toEqual({ label: 'Write', done: false });
+    expect(result().meta.value).toEqual({ list: 'home' });
+
+    await desk.update('todo', { done: true });
+    expect(result().data.value?.done).toBe(true);
+
+    result().data.value = { label: 'Write', done: false };
+    await flushPromises();
+    expect(desk.get('todo')?.data.done).toBe(false);
+  });
+});
+
+describe('checkIn() twoWay', () => {
+  const setup = async () => {
+    const desk = createDeskCore<Todo>();
+    const todo = reactive({ label: 'Write', done: false });
+    mountChild(desk, { data: todo, watchData: true, twoWay: true });
+    await flushPromises();
+    return { desk, todo };
+  };
+
+  it('writes registry changes back without pushing them again', async () => {
+    const { desk, todo } = await setup();
+    const updates: unknown[] = [];
+    desk.on('update', (payload) => updates.push(payload.data));
+
+    await desk.update('todo', { done: true });
+    await flushPromises();
+
+    expect(todo.done).toBe(true);
+    expect(updates).toHaveLength(1);
+    expect(desk.get('todo')?.version).toBe(2);
+  });
+
+  it('still pushes local changes made before the write-back was seen', async () => {
+    const { desk, todo } = await setup();
+
+    await desk.update('todo', { done: true });
+    // Same tick: the data watcher sees both changes at once
+    todo.label = 'Rewrite';
+    await flushPromises();
+
+    expect(desk.get('todo')?.data).toEqual({ label: 'Rewrite', done: true });
+  });
+
+  it('pushes local changes after a write-back', async () => {
+    const { desk, todo } = await setup();
+
+    await desk.update('todo', { done: true });
+    await nextTick();
+    todo.label = 'Rewrite';
+    await flushPromises();
+
+    expect(desk.get('todo')?.data.label).toBe('Rewrite');
+    expect(desk.get('todo')?.version).toBe(3);
+  });
+});
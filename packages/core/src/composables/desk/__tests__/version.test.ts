@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { createDeskCore } from '../desk-core';
+
+interface Field {
+  value: string;
+}
+
+const createForm = async (options?: { immutable?: boolean }) => {
+  const desk = createDeskCore<Field>(options);
+  await desk.checkIn('email', { value: 'a@b.c' });
+  return desk;
+};
+
+describe('item versions', () => {
+  it('increments on check-in, update and switch', async () => {
+    const desk = await createForm();
+    expect(desk.get('email')?.version).toBe(1);
+
+    await desk.update('email', { value: 'b@c.d' });
+    expect(desk.get('email')?.version).toBe(2);
+
+    await desk.checkIn('name', { value: 'Ada' });
+    await desk.switchItems('email', 'name');
+    expect(desk.get('email')?.version).toBe(3);
+    expect(desk.get('name')?.version).toBe(2);
+  });
+
+  it('applies an update based on the current version', async () => {
+    const desk = await createForm();
+
+    const result = await desk.update('email', { value: 'b@c.d' }, { expectedVersion: 1 });
+
+    expect(result).toMatchObject({
+      status: 'updated',
+      item: { version: 2, data: { value: 'b@c.d' } },
+    });
+  });
+
+  it('returns a conflict with the current item for a stale version', async () => {
+    const desk = await createForm();
+    await desk.update('email', { value: 'b@c.d' });
+
+    const result = await desk.update('email', { value: 'stale' }, { expectedVersion: 1 });
+
+    expect(result).toMatchObject({
+      status: 'conflict',
+      expectedVersion: 1,
+      item: { version: 2, data: { value: 'b@c.d' } },
+    });
+    expect(desk.get('email')?.data.value).toBe('b@c.d');
+  });
+
+  it('rejects a versioned update of a missing item', async () => {
+    const desk = await createForm();
+
+    expect(await desk.update('phone', { value: '0' }, { expectedVersion: 1 })).toEqual({
+      status: 'rejected',
+    });
+  });
+
+  it('cancels a transaction on a conflict', async () => {
+    const desk = await createForm();
+    await desk.update('email', { value: 'b@c.d' });
+
+    const committed = await desk.transaction(async (tx) => {
+      await tx.checkIn('name', { value: 'Ada' });
+      await tx.update('email', { value: 'stale' }, { expectedVersion: 1 });
+    });
+
+    expect(committed).toBe(false);
+    expect(desk.has('name')).toBe(false);
+    expect(desk.get('email')).toMatchObject({ version: 2, data: { value: 'b@c.d' } });
+  });
+
+  it('replaces the data on update when immutable', async () => {
+    const desk = await createForm({ immutable: true });
+    const before = desk.get('email')!.data;
+
+    await desk.update('email', { value: 'b@c.d' });
+
+    expect(desk.get('email')!.data).not.toBe(before);
+    expect(before.value).toBe('a@b.c');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { effectScope } from 'vue';
+import { createDeskCore } from '../desk-core';
+import type { DeskView } from '../../helpers/registry-view';
+
+interface Task {
+  rank: number;
+  list: 'todo' | 'done';
+}
+
+const ids = (view: DeskView<Task>) => view.items.value.map((item) => item.id);
+
+const createBoard = async () => {
+  const desk = createDeskCore<Task>();
+  await desk.checkIn('a', { rank: 3, list: 'todo' });
+  await desk.checkIn('b', { rank: 1, list: 'todo' });
+  await desk.checkIn('c', { rank: 2, list: 'done' });
+  await desk.checkIn('d', { rank: 5, list: 'todo' });
+  return desk;
+};
+
+describe('desk.view()', () => {
+  it('filters, sorts and pages the items', async () => {
+    const desk = await createBoard();
+    const view = desk.view({
+      filter: (item) => item.data.list === 'todo',
+      sort: [{ key: 'rank', order: 'desc' }],
+      limit: 2,
+    });
+
+    expect(ids(view)).toEqual(['d', 'a']);
+    expect(view.total.value).toBe(3);
+    expect(view.pageCount.value).toBe(2);
+
+    view.offset.value = 2;
+    expect(ids(view)).toEqual(['b']);
+    expect(view.page.value).toBe(2);
+  });
+
+  it('moves changed items to their new place', async () => {
+    const desk = await createBoard();
+    const view = desk.view({
+      filter: (item) => item.data.list === 'todo',
+      sort: [{ key: 'rank' }],
+    });
+
+    await desk.update('b', { rank: 10 });
+    expect(ids(view)).toEqual(['a', 'd', 'b']);
+
+    await desk.update('c', { list: 'todo' });
+    expect(ids(view)).toEqual(['c', 'a', 'd', 'b']);
+
+    await desk.checkOut('a');
+    await desk.update('d', { list: 'done' });
+    expect(ids(view)).toEqual(['c', 'b']);
+
+    await desk.switchItems('b', 'c');
+    expect(ids(view)).toEqual(['b', 'c']);
+  });
+
+  it('applies the changes of a transaction together', async () => {
+    const desk = await createBoard();
+    const view = desk.view({ sort: [{ key: 'rank' }] });
+
+    await desk.transaction(async (tx) => {
+      await tx.checkIn('e', { rank: 0, list: 'todo' });
+      await tx.update('d', { rank: 2 });
+      await tx.checkOut('a');
+    });
+
+    expect(ids(view)).toEqual(['e', 'b', 'c', 'd']);
+  });
+
+  it('keeps equal items in the order they entered the view', async () => {
+    const desk = await createBoard();
+    const view = desk.view({ sort: [{ key: 'list' }] });
+
+    expect(ids(view)).toEqual(['c', 'a', 'b', 'd']);
+
+    // Still between its neighbours: doesn't move
+    await desk.update('b', { rank: 99 });
+    expect(ids(view)).toEqual(['c', 'a', 'b', 'd']);
+
+    // Joins the todos after them
+    await desk.checkIn('e', { rank: 0, list: 'todo' }, undefined, { index: 0 });
+    expect(ids(view)).toEqual(['c', 'a', 'b', 'd', 'e']);
+  });
+
+  it('follows the desk order when not sorted', async () => {
+    const desk = await createBoard();
+    const view = desk.view({ filter: (item) => item.data.list === 'todo' });
+
+    await desk.checkIn('e', { rank: 0, list: 'todo' }, undefined, { before: 'b' });
+    expect(ids(view)).toEqual(['a', 'e', 'b', 'd']);
+
+    await desk.move('a', 4);
+    expect(ids(view)).toEqual(['e', 'b', 'd', 'a']);
+
+    await desk.reorder(['d', 'c', 'b', 'a', 'e']);
+    expect(ids(view)).toEqual(['d', 'b', 'a', 'e']);
+
+    // Replaced at a new position
+    await desk.checkIn('b', { rank: 1, list: 'todo' }, undefined, { index: 0 });
+    expect(ids(view)).toEqual(['b', 'd', 'a', 'e']);
+
+    await desk.checkOutMany(['d', 'a']);
+    expect(ids(view)).toEqual(['b', 'e']);
+  });
+
+  it('stops with its effect scope, or when stopped', async () => {
+    const desk = await createBoard();
+    const scope = effectScope();
+    const scoped = scope.run(() => desk.view())!;
+    const stopped = desk.view();
+
+    scope.stop();
+    stopped.stop();
+    await desk.checkOut('a');
+
+    expect(ids(scoped)).toEqual(['a', 'b', 'c', 'd']);
+    expect(ids(stopped)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
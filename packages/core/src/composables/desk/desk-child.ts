@@ -3,12 +3,33 @@
  * Handles component registration, data watching, and async update protection.
  */
 
-import { ref, inject, onUnmounted, watch, type InjectionKey, type Ref } from 'vue';
-import type { DeskCore } from '../desk/desk-core';
+import {
+  ref,
+  shallowRef,
+  customRef,
+  isRef,
+  isReactive,
+  toRaw,
+  onUnmounted,
+  watch,
+  getCurrentInstance,
+  getCurrentScope,
+  type InjectionKey,
+  type Ref,
+} from 'vue';
+import type { CheckInItem, DeskCore, DeskDuplicatePolicy } from '../desk/desk-core';
 import { AsyncUpdateGuard } from '../helpers/async-update-guard';
-import { NoOp, Debug } from '../utils';
+import { trackCheckedIn } from './desk-hierarchy';
+import { lookupDesk, deskNotFound, isStrictMode } from './desk-lookup';
+import { componentId } from './desk-id';
+import { trackTreeOrder } from '../helpers/component-order';
+import { NoOp, Debug, isDev } from '../utils';
 
 export interface CheckInOptions<T = any, TContext extends Record<string, any> = {}> {
+  /**
+   * Throw a `DeskNotFoundError` when no desk is found, instead of returning `desk: null`
+   * (default: true in strict mode, see `setStrictMode()`)
+   */
   required?: boolean;
   autoCheckIn?: boolean;
   id?: string | number;
@@ -21,21 +42,110 @@ export interface CheckInOptions<T = any, TContext extends Record<string, any> =
     | ((desk: DeskCore<T> & TContext, id: string | number) => T)
     | ((desk: DeskCore<T> & TContext, id: string | number) => Promise<T>);
   generateId?: () => string | number;
+  /**
+   * What to do if the id is already checked in (default: the desk's `onDuplicate`).
+   * With 'rename', the component checks in under the free id `desk.resolveId()` gives.
+   */
+  onDuplicate?: DeskDuplicatePolicy;
   watchData?: boolean;
+  /**
+   * Write changes made to the registry entry by others (`desk.update()` from the parent,
+   * plugins) back into `data`. Needs `data` to be a ref or a reactive object.
+   */
+  twoWay?: boolean;
   shallow?: boolean;
   watchCondition?: ((desk: DeskCore<T> & TContext) => boolean) | Ref<boolean>;
   meta?: Record<string, any>;
   debug?: boolean;
 }
 
-export interface CheckInResult<T = any, TContext extends Record<string, any> = {}> {
-  desk: (DeskCore<T> & TContext) | null;
+export interface CheckInResult<
+  T = any,
+  TContext extends Record<string, any> = {},
+  TDesk = DeskCore<T> & TContext,
+> {
+  desk: TDesk | null;
+  /**
+   * Data of the registry entry, undefined while not checked in.
+   * Assigning it updates the entry, like `updateSelf()`.
+   */
+  data: Ref<T | undefined>;
+  /** Meta of the registry entry, undefined while not checked in */
+  meta: Readonly<Ref<Record<string, any> | undefined>>;
+  /** Check in now, when not done by `autoCheckIn` or `watchCondition`. Resolves to its success. */
+  checkIn: () => Promise<boolean>;
   checkOut: () => void;
   updateSelf: (newData?: T) => Promise<void>;
 }
 
 const DebugPrefix = '[useCheckIn:desk-child]';
 
+/**
+ * Result of a check-in without desk
+ */
+const noDesk = <T, TContext extends Record<string, any>>(): CheckInResult<T, TContext> => ({
+  desk: null,
+  data: shallowRef(undefined),
+  meta: shallowRef(undefined),
+  checkIn: async () => false,
+  checkOut: () => {},
+  updateSelf: async () => {},
+});
+
+/**
+ * Copies `value` into `target` (a ref or reactive object), key by key so unchanged
+ * keys don't trigger. Returns whether anything changed.
+ */
+const writeBack = (target: unknown, value: unknown): boolean => {
+  const object = isRef(target) ? target.value : target;
+  if (toRaw(object) === toRaw(value)) return false;
+
+  if (typeof object !== 'object' || object === null || typeof value !== 'object' || !value) {
+    if (!isRef(target)) return false;
+    target.value = value;
+    return true;
+  }
+
+  const changed = Object.keys(value).filter(
+    (key) => (object as Record<string, unknown>)[key] !== (value as Record<string, unknown>)[key]
+  );
+  changed.forEach((key) => {
+    (object as Record<string, unknown>)[key] = (value as Record<string, unknown>)[key];
+  });
+  return changed.length > 0;
+};
+
+/**
+ * Same value, or objects whose keys hold the same values
+ */
+const sameFields = (a: unknown, b: unknown): boolean => {
+  const left = toRaw(isRef(a) ? a.value : a);
+  const right = toRaw(b);
+  if (Object.is(left, right)) return true;
+  if (typeof left !== 'object' || !left || typeof right !== 'object' || !right) return false;
+
+  const keys = Object.keys(left);
+  return (
+    keys.length === Object.keys(right).length &&
+    keys.every(
+      (key) =>
+        (left as Record<string, unknown>)[key] === (right as Record<string, unknown>)[key]
+    )
+  );
+};
+
+/**
+ * Registry -> item id -> owner currently checked in with it (dev-mode duplicate warning).
+ * Keyed by registry: components injecting a desk with context share its registry.
+ */
+const claimsByRegistry = new WeakMap<object, Map<string | number, object>>();
+
+/**
+ * A mounted component checks in (or is checking in) with this id
+ */
+export const isClaimed = (desk: DeskCore<any, any, any>, id: string | number): boolean =>
+  !!claimsByRegistry.get(desk.registryMap)?.has(id);
+
 /**
  * Checks in to a desk (child component registers itself).
  *
@@ -44,48 +154,61 @@ const DebugPrefix = '[useCheckIn:desk-child]';
  * - Efficient watchers (only when needed)
  * - Automatic cleanup on unmount
  *
- * @param parentDeskOrKey - The desk to check in to (object, symbol, or string)
+ * @param parentDeskOrKey - The desk to check in to: object, injection key, or id of a desk
+ *   provided under that id or defined with `defineDesk()`
  * @param checkInOptions - Check-in configuration
  */
 export const checkInToDesk = <T = any, TContext extends Record<string, any> = {}>(
   parentDeskOrKey:
     | (DeskCore<T> & TContext)
     | InjectionKey<DeskCore<T> & TContext>
+    | string
     | null
     | undefined,
   checkInOptions?: CheckInOptions<T, TContext>
 ): CheckInResult<T, TContext> => {
   const debug = checkInOptions?.debug ? Debug : NoOp;
+  const required = checkInOptions?.required ?? isStrictMode();
 
   // Auto-handle null/undefined context - no need for ternary pattern
   if (!parentDeskOrKey) {
+    if (required) {
+      throw deskNotFound(parentDeskOrKey);
+    }
     debug(`${DebugPrefix} No parent desk provided - skipping check-in`);
 
-    return {
-      desk: null,
-      checkOut: () => {},
-      updateSelf: async () => {},
-    };
+    return noDesk();
   }
 
   // Inject the desk if a symbol or string key is provided
   let desk: (DeskCore<T> & TContext) | null | undefined;
 
-  if (typeof parentDeskOrKey === 'symbol') {
-    desk = inject(parentDeskOrKey);
+  if (typeof parentDeskOrKey === 'symbol' || typeof parentDeskOrKey === 'string') {
+    desk = lookupDesk<DeskCore<T> & TContext>(parentDeskOrKey);
     if (!desk) {
-      debug(`${DebugPrefix} Could not inject desk with symbol`, String(parentDeskOrKey));
-      return {
-        desk: null,
-        checkOut: () => {},
-        updateSelf: async () => {},
-      };
+      if (required) {
+        throw deskNotFound(parentDeskOrKey);
+      }
+      debug(`${DebugPrefix} No desk found for key`, String(parentDeskOrKey));
+      return noDesk();
     }
   } else {
     desk = parentDeskOrKey;
   }
 
-  const itemId = checkInOptions?.id || `item-${Date.now()}-${Math.random()}`;
+  // Captured during setup: check-in itself may complete after an await
+  const instance = getCurrentInstance();
+  const setupScope = getCurrentScope();
+
+  // Stable for the component instance when no id is given, and the same
+  // on the server and the client so hydrated items are adopted
+  const requestedId =
+    checkInOptions?.id ??
+    checkInOptions?.generateId?.() ??
+    componentId(instance);
+  // Differs from `requestedId` once renamed by `onDuplicate: 'rename'`
+  let itemId = requestedId;
+  const claimOwner = {};
   const isCheckedIn = ref(false);
   let conditionStopHandle: (() => void) | null = null;
   let watchStopHandle: (() => void) | null = null;
@@ -93,6 +216,21 @@ export const checkInToDesk = <T = any, TContext extends Record<string, any> = {}
   // Async update protection
   const asyncGuard = new AsyncUpdateGuard();
 
+  // Asked for in the setup scope, so the desk releases it on unmount
+  let itemRef = desk.itemRef(itemId);
+  let itemRefId = itemId;
+  const resolveItemRef = () => {
+    if (itemRefId === itemId) return;
+    itemRefId = itemId;
+    itemRef = setupScope?.run(() => desk!.itemRef(itemId)) ?? desk!.itemRef(itemId);
+  };
+
+  // A keyed v-for moves components without re-rendering them: their parent re-renders
+  const untrackTreeOrder =
+    desk.orderMode === 'tree' && instance?.parent
+      ? trackTreeOrder(instance.parent, desk.refreshOrder)
+      : null;
+
   /**
    * Get current data value (sync or async, with race condition protection)
    */
@@ -137,26 +275,112 @@ export const checkInToDesk = <T = any, TContext extends Record<string, any> = {}
     return dataValue;
   };
 
+  const renames = () => (checkInOptions?.onDuplicate ?? desk!.onDuplicate) === 'rename';
+
+  const getClaims = () => {
+    let claims = claimsByRegistry.get(desk!.registryMap);
+    if (!claims) {
+      claims = new Map();
+      claimsByRegistry.set(desk!.registryMap, claims);
+    }
+    return claims;
+  };
+
+  /**
+   * Id to check in with: with 'rename', the first one neither checked in nor claimed
+   * by another mounted component (whose check-in may still be in flight)
+   */
+  const resolveItemId = () => {
+    if (!renames()) return requestedId;
+    const claims = getClaims();
+    // Hydrated items are waiting for the component that checked them in on the server
+    const isTaken = (id: string | number) =>
+      (desk!.registryMap.has(id) && !desk!.isHydrated(id)) ||
+      (claims.has(id) && claims.get(id) !== claimOwner);
+    let id = requestedId;
+    for (let suffix = 2; isTaken(id); suffix++) {
+      id = `${requestedId}-${suffix}`;
+    }
+    return id;
+  };
+
+  /**
+   * Record this component as the owner of its id, warning (in dev) when another
+   * mounted component already holds it
+   */
+  const claimId = () => {
+    const claims = getClaims();
+    const owner = claims.get(itemId);
+    if (!owner) {
+      claims.set(itemId, claimOwner);
+    } else if (owner !== claimOwner && isDev()) {
+      console.warn(
+        `[useCheckIn] Id '${itemId}' is already checked in at desk '${desk!.deskId}' by another mounted component. ` +
+          `Pass a unique \`id\` or set \`onDuplicate\`.`
+      );
+    }
+  };
+
+  const releaseId = () => {
+    const claims = getClaims();
+    if (claims.get(itemId) === claimOwner) {
+      claims.delete(itemId);
+    }
+  };
+
   /**
    * Perform the actual check-in
    */
   const performCheckIn = async (): Promise<boolean> => {
     if (isCheckedIn.value) return true;
 
+    // Aborted when the component unmounts
+    const signal = asyncGuard.signal;
+
+    // Claimed before awaiting data, so components mounting together see each other
+    itemId = resolveItemId();
+    claimId();
+
     const data = await getCurrentData();
 
     // If data is undefined, it might be stale - skip check-in
     if (data === undefined && checkInOptions?.data !== undefined) {
+      releaseId();
       debug(`${DebugPrefix} Skipping check-in - async data was stale`);
       return false;
     }
 
-    const success = await desk!.checkIn(itemId, data, checkInOptions?.meta);
+    if (signal.aborted) {
+      releaseId();
+      debug(`${DebugPrefix} Skipping check-in - component unmounted`);
+      return false;
+    }
+
+    // Renamed here rather than by the desk, so this component knows its id
+    const success = await desk!.checkIn(itemId, data, checkInOptions?.meta, {
+      signal,
+      onDuplicate: renames() ? 'reject' : checkInOptions?.onDuplicate,
+      // Positions the item with the desk's 'mount' and 'tree' order
+      owner: instance ?? undefined,
+    });
+
+    // Committed while the component was unmounting: undo it
+    if (success && signal.aborted) {
+      desk!.checkOut(itemId);
+      releaseId();
+      debug(`${DebugPrefix} Checked out ${itemId} - component unmounted during check-in`);
+      return false;
+    }
 
     if (success) {
+      // Renamed by `onDuplicate: 'rename'`
+      resolveItemRef();
       isCheckedIn.value = true;
+      // Desks created by this component become sub-desks of this one
+      trackCheckedIn(instance, desk!, itemId);
       debug(`${DebugPrefix} Checked in: ${itemId}`, data);
     } else {
+      releaseId();
       debug(`${DebugPrefix} Check-in cancelled for: ${itemId}`);
     }
 
@@ -170,6 +394,7 @@ export const checkInToDesk = <T = any, TContext extends Record<string, any> = {}
     if (!isCheckedIn.value) return;
 
     desk!.checkOut(itemId);
+    releaseId();
     isCheckedIn.value = false;
 
     debug(`${DebugPrefix} Checked out: ${itemId}`);
@@ -202,6 +427,9 @@ export const checkInToDesk = <T = any, TContext extends Record<string, any> = {}
     performCheckIn();
   }
 
+  // Value written back from the registry: the next data watcher run must not push it again
+  let echoed: { data: unknown } | undefined;
+
   // Setup watchData if provided
   if (checkInOptions?.watchData && checkInOptions?.data) {
     const watchOptions = checkInOptions.shallow ? { deep: false } : { deep: true };
@@ -220,6 +448,12 @@ export const checkInToDesk = <T = any, TContext extends Record<string, any> = {}
           : checkInOptions.data;
       },
       async (newData) => {
+        // Unless the data changed again since
+        if (echoed) {
+          const echo = sameFields(newData, echoed.data);
+          echoed = undefined;
+          if (echo) return;
+        }
         if (isCheckedIn.value && newData !== undefined) {
           // Start async guard
           const updateToken = asyncGuard.startUpdate();
@@ -232,7 +466,7 @@ export const checkInToDesk = <T = any, TContext extends Record<string, any> = {}
             return;
           }
 
-          desk!.update(itemId, resolvedData);
+          desk!.update(itemId, resolvedData, { signal: asyncGuard.signal });
           debug(`${DebugPrefix} Updated data for: ${itemId}`, resolvedData);
         }
       },
@@ -261,10 +495,68 @@ export const checkInToDesk = <T = any, TContext extends Record<string, any> = {}
       return;
     }
 
-    desk!.update(itemId, data);
+    desk!.update(itemId, data, { signal: asyncGuard.signal });
     debug(`${DebugPrefix} Manual update for: ${itemId}`, data);
   };
 
+  /**
+   * Registry entry of this component. Not a computed: an item updated in place
+   * keeps its identity and would not trigger.
+   */
+  const entry = customRef<CheckInItem<T> | undefined>(() => ({
+    get: () => (isCheckedIn.value ? itemRef.value : undefined),
+    set: () => {},
+  }));
+
+  const data = customRef<T | undefined>(() => ({
+    get: () => entry.value?.data,
+    set: (value) => {
+      if (value !== undefined) updateSelf(value);
+    },
+  }));
+
+  const meta = customRef<Record<string, any> | undefined>(() => ({
+    get: () => entry.value?.meta,
+    set: () => {},
+  }));
+
+  let twoWayStopHandle: (() => void) | null = null;
+
+  if (checkInOptions?.twoWay) {
+    const source = checkInOptions.data;
+    if (isRef(source) || isReactive(source)) {
+      // Sync: the echo is known before the data watcher runs
+      twoWayStopHandle = watch(
+        () => entry.value?.version,
+        () => {
+          const current = entry.value;
+          if (!current) return;
+          const written = writeBack(source, current.data);
+          if (written) {
+            debug(`${DebugPrefix} Registry changes written back for: ${itemId}`);
+          }
+          // Only a watched source echoes registry changes to the desk:
+          // written back here, or made in place when the desk holds the source itself
+          const shared = toRaw(isRef(source) ? source.value : source) === toRaw(current.data);
+          if (checkInOptions.watchData && (written || shared)) {
+            echoed = {
+              data:
+                typeof current.data === 'object' && current.data !== null
+                  ? { ...current.data }
+                  : current.data,
+            };
+          }
+        },
+        { flush: 'sync' }
+      );
+    } else if (isDev()) {
+      console.warn(
+        `[useCheckIn] \`twoWay\` needs \`data\` to be a ref or a reactive object to write registry changes back. ` +
+          `Read the \`data\` ref returned by checkIn() instead.`
+      );
+    }
+  }
+
   // Cleanup on unmount
   onUnmounted(() => {
     debug(`${DebugPrefix} Component unmounted - performing check-out if needed`);
@@ -278,12 +570,23 @@ export const checkInToDesk = <T = any, TContext extends Record<string, any> = {}
       conditionStopHandle();
     }
 
-    // Reset async guard
+    if (twoWayStopHandle) {
+      twoWayStopHandle();
+    }
+
+    if (untrackTreeOrder) {
+      untrackTreeOrder();
+    }
+
+    // Reset async guard, aborting a check-in or update still in flight
     asyncGuard.reset();
   });
 
   return {
     desk,
+    data,
+    meta,
+    checkIn: performCheckIn,
     checkOut: performCheckOut,
     updateSelf,
   };
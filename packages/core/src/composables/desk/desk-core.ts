@@ -3,30 +3,167 @@
  * Optimized for performance with hybrid registry representation.
  */
 
-import { shallowRef, computed, type ComputedRef, type ShallowRef } from 'vue';
+import {
+  shallowRef,
+  computed,
+  getCurrentScope,
+  onScopeDispose,
+  isRef,
+  type ComponentInternalInstance,
+  type ComputedRef,
+  type ShallowRef,
+} from 'vue';
 import { EventManager } from '../helpers/event-manager';
 import { SortedRegistryCache } from '../helpers/sorted-registry-cache';
+import { RegistryJournal } from '../helpers/registry-journal';
+import { RegistryIndexes, type DeskIndexDefinition } from '../helpers/registry-index';
+import { RegistryOrder, type RegistryPosition } from '../helpers/registry-order';
+import { ComponentOwners, type DeskOrderMode } from '../helpers/component-order';
+import { TransactionScope, TransactionCancelledError } from '../helpers/transaction-scope';
+import { PluginGraph, PluginDependencyError } from '../helpers/plugin-graph';
+import { MiddlewarePipeline, type Middleware } from '../helpers/middleware-pipeline';
+import { HookRunner } from '../helpers/hook-runner';
+import { ItemRefs } from '../helpers/item-refs';
+import {
+  DESK_SNAPSHOT_VERSION,
+  diffSnapshots,
+  snapshotItem,
+  toSerializable,
+  type DeskFieldChange,
+  type DeskSnapshot,
+} from '../helpers/registry-snapshot';
+import {
+  RegistryView,
+  type DeskView,
+  type DeskViewOptions,
+  type RegistryObserver,
+} from '../helpers/registry-view';
+import {
+  RegistryAggregation,
+  RegistryGroups,
+  type DeskAggregateSpec,
+  type DeskAggregation,
+  type DeskGroups,
+} from '../helpers/registry-aggregate';
 import { DevTools, NoOpDevTools } from '../helpers/devtools';
-import type { CheckInPlugin, CheckInPluginComputed, CheckInPluginMethods } from '../types';
+import type {
+  CheckInPlugin,
+  CheckInPluginComputed,
+  CheckInPluginMethods,
+  CheckInPluginsEvents,
+  CheckInPluginsExports,
+} from '../types';
 import { NoOp, Debug } from '../utils';
 
 /**
  * Types of events emitted by the desk
  */
-export type DeskEventType = 'check-in' | 'check-out' | 'update' | 'switch' | 'clear';
+export type DeskEventType =
+  | 'check-in'
+  | 'check-out'
+  | 'update'
+  | 'switch'
+  | 'move'
+  | 'reorder'
+  | 'transfer'
+  | 'clear'
+  | 'batch'
+  | 'restore'
+  | 'rollback'
+  | 'error';
+
+/**
+ * Built-in desk events and their payloads
+ */
+export type DeskEventMap<T = any> = Record<Exclude<DeskEventType, 'error'>, DeskEventPayload<T>> & {
+  error: DeskErrorPayload<T>;
+};
+
+/**
+ * All events of a desk: built-in ones plus custom events (`TEvents`), usually
+ * declared by plugins and namespaced with a colon (e.g. 'active:changed')
+ */
+export type DeskEvents<T = any, TEvents extends Record<string, any> = {}> = DeskEventMap<T> &
+  TEvents;
+
+/**
+ * What listeners can subscribe to: an event, a namespace ('active:*') or everything ('*')
+ */
+export type DeskEventKey<TMap> = (keyof TMap & string) | '*' | `${string}:*`;
+
+/**
+ * Payload received by a listener of `K`
+ */
+export type DeskEventPayloadOf<TMap, K> = K extends keyof TMap
+  ? TMap[K]
+  : K extends `${infer Namespace}:*`
+    ? TMap[Extract<keyof TMap, `${Namespace}:${string}`>]
+    : TMap[keyof TMap];
 
 export interface DeskEventPayload<T = any> {
   id?: string | number;
   data?: T;
   from?: string | number;
   to?: string | number;
+  ids?: Array<string | number>;
+  /** Check-ins renamed by `onDuplicate: 'rename'`: id that was taken */
+  requestedId?: string | number;
+  /** Batches: operation applied to `ids` */
+  operation?: DeskOperation;
+  /** Transfers: desk the item left */
+  sourceDesk?: string;
+  /** Transfers: desk the item arrived in */
+  targetDesk?: string;
+  /**
+   * Desk ids the event went through, from the originating desk up to the listening one.
+   * Only set for listeners registered with `{ bubbled: true }`.
+   */
+  path?: string[];
   timestamp?: number;
 }
 
 /**
- * Callback signature for desk events
+ * How a desk reacts when a plugin hook throws:
+ * - 'isolate': report the error and go on, as if the hook returned nothing
+ * - 'abort': report the error and reject the operation (default)
+ * - 'rollback': report the error, undo the operation's changes, emit 'rollback' and reject
+ */
+export type DeskErrorPolicy = 'isolate' | 'abort' | 'rollback';
+
+/**
+ * What a check-in does when its id is already checked in:
+ * - 'replace': overwrite the item (default)
+ * - 'reject': leave the item untouched and resolve to false
+ * - 'merge': merge data and meta into the item, keeping its timestamp and position
+ * - 'rename': check in under the first free `${id}-2`, `${id}-3`... (see `desk.resolveId()`)
+ */
+export type DeskDuplicatePolicy = 'replace' | 'reject' | 'merge' | 'rename';
+
+/**
+ * Where a plugin error happened
+ */
+export interface DeskErrorInfo {
+  plugin: string;
+  hook: string;
+  id?: string | number;
+}
+
+/**
+ * Payload of the 'error' event
+ */
+export interface DeskErrorPayload<T = any> extends DeskEventPayload<T>, DeskErrorInfo {
+  error: unknown;
+  policy: DeskErrorPolicy;
+}
+
+/**
+ * Callback signature for desk events.
+ * The event name is passed too, for namespace and wildcard listeners.
  */
-export type DeskEventCallback<T = any> = (payload: DeskEventPayload<T>) => void;
+export type DeskEventCallback<T = any, P = DeskEventPayload<T>> = (
+  payload: P,
+  event: string
+) => void;
 
 /**
  * Represents an item checked into the desk
@@ -34,32 +171,276 @@ export type DeskEventCallback<T = any> = (payload: DeskEventPayload<T>) => void;
 export interface CheckInItem<T = any> {
   id: string | number;
   data: T;
+  /**
+   * Incremented each time the item is checked in, updated or switched.
+   * Pass it as `expectedVersion` to `update()` to detect concurrent writes.
+   */
+  version: number;
   timestamp?: number;
   meta?: Record<string, any>;
 }
 
+/**
+ * An item found by `desk.findInTree()`, with the desk holding it
+ */
+export interface DeskTreeMatch<T = any> {
+  desk: DeskCore<T, any>;
+  item: CheckInItem<T>;
+  /** Desk ids from the queried desk down to the one holding the item */
+  path: string[];
+}
+
+/**
+ * Options accepted by desk operations
+ */
+export interface DeskOperationOptions {
+  /**
+   * Aborts the operation while its before-hooks run: it then resolves to false
+   * and the registry is left untouched. Hooks receive it as their last argument.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Per-operation options for `desk.checkIn()`
+ */
+export interface DeskCheckInOptions extends RegistryPosition, DeskOperationOptions {
+  /** What to do if the id is already checked in (default: the desk's `onDuplicate`) */
+  onDuplicate?: DeskDuplicatePolicy;
+  /** Component checking the item in, positioning it with the desk's 'mount' and 'tree' order */
+  owner?: ComponentInternalInstance;
+}
+
+/**
+ * Per-operation options for `desk.update()`
+ */
+export interface DeskUpdateOptions extends DeskOperationOptions {
+  /**
+   * Version the changes are based on. If the item has another version when
+   * the update is applied, nothing is written and a conflict is returned.
+   */
+  expectedVersion?: number;
+}
+
+/**
+ * Result of `desk.update()` called with `expectedVersion`
+ */
+export type DeskUpdateResult<T = any> =
+  | { status: 'updated'; item: CheckInItem<T> }
+  /** The item changed since `expectedVersion`: `item` is its current state */
+  | { status: 'conflict'; expectedVersion: number; item: CheckInItem<T> }
+  /** Item not found, or update cancelled by a hook */
+  | { status: 'rejected' };
+
+/**
+ * Options for `desk.transferTo()`. Position options apply in the target desk.
+ */
+export interface DeskTransferOptions extends DeskCheckInOptions {
+  /** Id of the item in the target desk (defaults to its current id) */
+  as?: string | number;
+  /** Merged into the item's meta */
+  meta?: Record<string, any>;
+}
+
+/**
+ * Describes a transfer, as seen by plugins' `onTransfer` hook
+ */
+export interface DeskTransfer<T = any> {
+  /** 'out' on the source desk, 'in' on the target desk */
+  direction: 'out' | 'in';
+  id: string | number;
+  targetId: string | number;
+  data: T;
+  meta?: Record<string, any>;
+  from: DeskCore<T, any>;
+  to: DeskCore<T, any>;
+}
+
+/**
+ * Operations available inside `desk.transaction()`.
+ * Registry changes are visible immediately, events and `on*` hooks fire after commit.
+ */
+export interface DeskTransaction<T = any> {
+  checkIn: (
+    id: string | number,
+    data: T,
+    meta?: Record<string, any>,
+    options?: DeskCheckInOptions
+  ) => Promise<boolean>;
+  checkOut: (id: string | number, options?: DeskOperationOptions) => Promise<boolean>;
+  /** A version conflict cancels the transaction */
+  update: (id: string | number, data: Partial<T>, options?: DeskUpdateOptions) => Promise<boolean>;
+  switchItems: (
+    from: string | number,
+    to: string | number,
+    options?: DeskOperationOptions
+  ) => Promise<void>;
+  move: (id: string | number, toIndex: number) => Promise<boolean>;
+  reorder: (ids: Array<string | number>) => Promise<void>;
+  get: (id: string | number) => CheckInItem<T> | undefined;
+  has: (id: string | number) => boolean;
+}
+
+/**
+ * Desk operations that go through middleware
+ */
+export type DeskOperation = 'checkIn' | 'update' | 'checkOut' | 'switch' | 'clear' | 'transfer';
+
+/**
+ * Context passed to desk middleware.
+ * Operation arguments can be replaced before calling `next()`.
+ */
+export interface DeskMiddlewareContext<T = any> {
+  operation: DeskOperation;
+  /** Item id (checkIn, update, checkOut, transfer: its id in `desk`) */
+  id?: string | number;
+  /** Item data (checkIn, transfer in the target desk) or changes (update) */
+  data?: T | Partial<T>;
+  /** Item meta (checkIn, transfer) */
+  meta?: Record<string, any>;
+  /** Item position (checkIn, transfer) */
+  position?: DeskCheckInOptions;
+  /** Version the changes are based on (update) */
+  expectedVersion?: number;
+  /** Swapped items (switch) */
+  from?: string | number;
+  to?: string | number;
+  /** Desks the item moves between (transfer): its middleware run in both */
+  source?: DeskCore<T, any, any>;
+  target?: DeskCore<T, any, any>;
+  /** Signal of the operation (see `DeskOperationOptions`) */
+  signal?: AbortSignal;
+  /** True inside `desk.transaction()`: side effects are deferred until commit */
+  transaction: boolean;
+  desk: DeskCore<T, any, any>;
+}
+
+/**
+ * Wraps desk operations, Koa-style. `next()` resolves to the operation result:
+ * a boolean for checkIn/update/checkOut/transfer, undefined for switch/clear.
+ */
+export type DeskMiddleware<T = any> = Middleware<DeskMiddlewareContext<T>>;
+
 export interface DeskCoreOptions<
   T = any,
   TContext extends Record<string, any> = Record<string, any>,
 > {
   onBeforeCheckIn?: (
     id: string | number,
-    data: T
+    data: T,
+    signal: AbortSignal
   ) => boolean | undefined | Promise<boolean | undefined>;
-  onCheckIn?: (id: string | number, data: T, desk: DeskCore<T, TContext>) => void | Promise<void>;
+  onCheckIn?: (
+    id: string | number,
+    data: T,
+    desk: DeskCore<T, TContext>,
+    signal: AbortSignal
+  ) => void | Promise<void>;
   onBeforeCheckOut?: (
     id: string | number,
-    desk: DeskCore<T, TContext>
+    desk: DeskCore<T, TContext>,
+    signal: AbortSignal
   ) => boolean | undefined | Promise<boolean | undefined>;
-  onCheckOut?: (id: string | number, desk: DeskCore<T, TContext>) => void | Promise<void>;
+  onCheckOut?: (
+    id: string | number,
+    desk: DeskCore<T, TContext>,
+    signal: AbortSignal
+  ) => void | Promise<void>;
+  /**
+   * Milliseconds an async hook may take before failing with a `HookTimeoutError`.
+   * Applies to the desk hooks and to plugins without their own `hookTimeout`.
+   */
+  hookTimeout?: number;
+  /**
+   * `update()` replaces the item's data with a new object instead of mutating it,
+   * so watchers and history see a distinct snapshot per version (default: false)
+   */
+  immutable?: boolean;
+  /**
+   * What a check-in does when its id is already checked in (default: 'replace')
+   */
+  onDuplicate?: DeskDuplicatePolicy;
+  /**
+   * How items checked in by components are ordered (default: 'explicit').
+   * With 'mount' and 'tree', explicit positions still apply to the check-ins that give one.
+   */
+  order?: DeskOrderMode;
+  /**
+   * State to start from (e.g. serialized during SSR). Its items are pending until
+   * checked in again: that check-in adopts the item instead of re-adding it.
+   */
+  initialState?: DeskSnapshot<T>;
   debug?: boolean;
   devTools?: boolean;
-  plugins?: CheckInPlugin<T, CheckInPluginMethods<T>, CheckInPluginComputed<T>>[];
+  plugins?: DeskPlugins<T>;
+  /**
+   * Middleware wrapping checkIn, update, checkOut, switch, clear and transfer.
+   * Runs inside plugin middleware, around the `onBefore*` / `on*` hooks.
+   */
+  middleware?: DeskMiddleware<T>[];
+  /**
+   * What to do when a plugin hook throws (default: 'abort')
+   */
+  errorPolicy?: DeskErrorPolicy;
+  /**
+   * Called when a plugin hook throws, before the error policy applies
+   */
+  onError?: (error: unknown, info: DeskErrorInfo) => void;
   deskId?: string; // For DevTools integration
+  /**
+   * Parent desk: this desk becomes one of its `children` and bubbles events to it
+   */
+  parent?: DeskCore<any, any> | null;
+  /**
+   * Id of the parent's item this desk belongs to (e.g. the menu entry owning a sub-menu)
+   */
+  parentItemId?: string | number;
+  /**
+   * Secondary indexes on data fields, queried with `findBy()`.
+   * Unique indexes reject check-ins/updates that would duplicate a value.
+   */
+  indexes?: DeskIndexDefinition<T>[];
   context?: TContext | ((desk: DeskCore<T, TContext>) => TContext);
 }
 
-export interface DeskCore<T = any, TContext extends Record<string, any> = {}> {
+/**
+ * Plugins accepted by a desk
+ */
+export type DeskPlugins<T = any> = CheckInPlugin<
+  T,
+  CheckInPluginMethods<T>,
+  CheckInPluginComputed<T>,
+  any
+>[];
+
+/**
+ * A desk typed with the methods, computed values and events of its plugins
+ */
+export type DeskWithPlugins<
+  T = any,
+  TPlugins extends readonly unknown[] = DeskPlugins<T>,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+> = DeskCore<T, TContext, TEvents & CheckInPluginsEvents<TPlugins>> &
+  CheckInPluginsExports<TPlugins>;
+
+export interface DeskCore<
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+> {
+  /**
+   * Desk identifier (DevTools, hierarchy paths)
+   */
+  readonly deskId: string;
+  /**
+   * What a check-in does by default when its id is already checked in
+   */
+  readonly onDuplicate: DeskDuplicatePolicy;
+  /**
+   * How items checked in by components are ordered
+   */
+  readonly orderMode: DeskOrderMode;
   /**
    * DevTools integration instance (either real or no-op)
    */
@@ -71,10 +452,15 @@ export interface DeskCore<T = any, TContext extends Record<string, any> = {}> {
   readonly registryMap: Map<string | number, CheckInItem<T>>;
 
   /**
-   * Reactive list representation (optimized for Vue reactivity)
+   * Reactive list representation (optimized for Vue reactivity), in position order
    */
   readonly registryList: ShallowRef<CheckInItem<T>[]>;
 
+  /**
+   * Items in their explicit position order (see `move()` and `reorder()`)
+   */
+  readonly ordered: ComputedRef<CheckInItem<T>[]>;
+
   /**
    * Sorted registry computed (cached, only recalculates when needed)
    */
@@ -86,43 +472,303 @@ export interface DeskCore<T = any, TContext extends Record<string, any> = {}> {
   readonly size: ComputedRef<number>;
 
   /**
-   * Plugins installed on the desk
+   * Reactive set of the checked-in ids. Only changes when items are added or removed.
+   */
+  readonly keys: ComputedRef<ReadonlySet<string | number>>;
+
+  /**
+   * Plugins installed on the desk, in execution order
    */
-  readonly plugins: ComputedRef<
-    CheckInPlugin<T, CheckInPluginMethods<T>, CheckInPluginComputed<T>>[]
-  >;
+  readonly plugins: ComputedRef<DeskPlugins<T>>;
 
   pluginByName: (
     name: string
   ) => CheckInPlugin<T, CheckInPluginMethods<T>, CheckInPluginComputed<T>> | undefined;
+  /**
+   * Installs a plugin at runtime: runs `install` and attaches its methods and computed values.
+   * @returns false if a plugin with the same name is already installed
+   * @throws PluginDependencyError if a requirement is missing, conflicts or creates a cycle
+   */
+  use: (plugin: DeskPlugins<T>[number]) => boolean;
+  /**
+   * Uninstalls a plugin: runs its cleanup and detaches its methods and computed values.
+   * @returns false if no plugin has this name
+   * @throws PluginDependencyError if an installed plugin requires it
+   */
+  unuse: (name: string) => boolean;
 
   setContext: <U extends TContext>(context: U) => U | undefined;
   getContext: <U extends TContext>() => U | undefined;
 
-  checkIn: (id: string | number, data: T, meta?: Record<string, any>) => Promise<boolean>;
-  checkOut: (id: string | number) => Promise<boolean>;
+  /**
+   * Parent desk, if this desk is nested
+   */
+  readonly parent: ComputedRef<DeskCore<any, any> | null>;
+  /**
+   * Id of the parent's item this desk belongs to
+   */
+  readonly parentItemId: ComputedRef<string | number | undefined>;
+  /**
+   * Sub-desks linked to this desk
+   */
+  readonly children: ComputedRef<DeskCore<any, any>[]>;
+  /**
+   * Link this desk under a parent (or unlink it with null)
+   */
+  setParent: (parent: DeskCore<any, any> | null, parentItemId?: string | number) => void;
+  /**
+   * All desks in the subtree (depth-first, this desk excluded)
+   */
+  descendants: () => DeskCore<any, any>[];
+  /**
+   * Query items across this desk and its whole subtree
+   */
+  findInTree: (
+    predicate: (item: CheckInItem<any>, desk: DeskCore<any, any>) => boolean
+  ) => DeskTreeMatch[];
+
+  /**
+   * Check an item in. Use `options.index`, `options.before` or `options.after`
+   * to position it, otherwise it is appended (or keeps its place if already present).
+   */
+  checkIn: (
+    id: string | number,
+    data: T,
+    meta?: Record<string, any>,
+    options?: DeskCheckInOptions
+  ) => Promise<boolean>;
+  checkOut: (id: string | number, options?: DeskOperationOptions) => Promise<boolean>;
+  /**
+   * Id a check-in of `id` would use under `policy` (default: the desk's `onDuplicate`):
+   * the first free `${id}-n` when renaming a taken id, `id` otherwise
+   */
+  resolveId: (id: string | number, policy?: DeskDuplicatePolicy) => string | number;
+  /**
+   * The item comes from `initialState` and no check-in has adopted it yet
+   */
+  isHydrated: (id: string | number) => boolean;
   get: (id: string | number) => CheckInItem<T> | undefined;
+  /**
+   * Reactive ref to one item (undefined while it isn't checked in).
+   * Unlike `get()`, it only triggers when this item changes, not on every registry change.
+   * Released with the last effect scope (component) using it.
+   */
+  itemRef: (id: string | number) => Readonly<ShallowRef<CheckInItem<T> | undefined>>;
+  /**
+   * Items whose `data[key]` equals `value` (O(1) on indexed keys, linear scan otherwise).
+   * Reactive when read inside a computed or watcher.
+   */
+  findBy: <K extends keyof T & string>(key: K, value: T[K]) => CheckInItem<T>[];
+  /**
+   * First item whose `data[key]` equals `value` (typically used with unique indexes)
+   */
+  findOneBy: <K extends keyof T & string>(key: K, value: T[K]) => CheckInItem<T> | undefined;
   getAll: (options?: {
     sortBy?: keyof T | 'timestamp';
     order?: 'asc' | 'desc';
   }) => CheckInItem<T>[];
-  update: (id: string | number, data: Partial<T>) => Promise<boolean>;
-  switchItems: (from: string | number, to: string | number) => Promise<void>;
+  /**
+   * Live filtered / sorted / paginated view, maintained incrementally as items change.
+   * Several views can be open on the same desk.
+   */
+  view: (options?: DeskViewOptions<T>) => DeskView<T>;
+  /**
+   * Live groups of items by data field or computed key, maintained incrementally
+   */
+  groupBy: <K = any>(key: keyof T | ((item: CheckInItem<T>) => K)) => DeskGroups<T, K>;
+  /**
+   * Live aggregates (`sum()`, `count()`, `avg()`, `min()`, `max()`...), maintained incrementally
+   * @example desk.aggregate({ total: sum('price'), count: count() })
+   */
+  aggregate: <S extends DeskAggregateSpec<T>>(spec: S) => DeskAggregation<S>;
+  /**
+   * Update an item's data. With `expectedVersion`, resolves to a `DeskUpdateResult`
+   * telling whether the write was applied or conflicted with a newer version.
+   */
+  update: {
+    (
+      id: string | number,
+      data: Partial<T>,
+      options: DeskUpdateOptions & { expectedVersion: number }
+    ): Promise<DeskUpdateResult<T>>;
+    (id: string | number, data: Partial<T>, options?: DeskUpdateOptions): Promise<boolean>;
+  };
+  switchItems: (
+    from: string | number,
+    to: string | number,
+    options?: DeskOperationOptions
+  ) => Promise<void>;
+  /**
+   * Move an item to a new position (negative indexes count from the end).
+   * Emits a single 'move' event with the previous and new index.
+   */
+  move: (id: string | number, toIndex: number) => Promise<boolean>;
+  /**
+   * Put the given ids first, in that order. Unlisted items keep their relative order after them.
+   * Emits a single 'reorder' event.
+   */
+  reorder: (ids: Array<string | number>) => Promise<void>;
+  /**
+   * Sort the items checked in by components again, with 'mount' and 'tree' order.
+   * Done after the parent of the components re-renders with 'tree' order.
+   * Emits a single 'reorder' event if the order changed.
+   */
+  refreshOrder: () => Promise<void>;
+  /**
+   * Current position of an item, or -1
+   */
+  indexOf: (id: string | number) => number;
   has: (id: string | number) => boolean;
-  clear: () => void;
+  clear: (options?: DeskOperationOptions) => Promise<void>;
+  /**
+   * Serializable state of the desk: items in order, serializable context values
+   * and the state of plugins implementing `serialize()`
+   */
+  snapshot: () => DeskSnapshot<T>;
+  /**
+   * Bring the desk back to a snapshot. Items that differ are checked out, checked in
+   * or updated field by field, with their events, then 'restore' is emitted.
+   * Lifecycle hooks and middleware don't run; plugins implementing `hydrate()` get their state.
+   */
+  restore: (snapshot: DeskSnapshot<T>) => void;
   checkInMany: (
-    items: Array<{ id: string | number; data: T; meta?: Record<string, any> }>
+    items: Array<{ id: string | number; data: T; meta?: Record<string, any> }>,
+    options?: DeskOperationOptions
   ) => Promise<void>;
-  checkOutMany: (ids: Array<string | number>) => Promise<void>;
-  updateMany: (updates: Array<{ id: string | number; data: Partial<T> }>) => Promise<void>;
-  on: (event: DeskEventType, callback: DeskEventCallback<T>) => () => void;
-  off: (event: DeskEventType, callback: DeskEventCallback<T>) => void;
-  emit: (event: DeskEventType, payload: DeskEventPayload) => void;
+  checkOutMany: (ids: Array<string | number>, options?: DeskOperationOptions) => Promise<void>;
+  updateMany: (
+    updates: Array<{ id: string | number; data: Partial<T> }>,
+    options?: DeskOperationOptions
+  ) => Promise<void>;
+  /**
+   * Move an item to another desk. Runs this desk's before-check-out hooks and the
+   * target's before-check-in hooks, then moves it in one step: no duplicate, no loss.
+   * If the id is taken in the target, the target's `onDuplicate` applies.
+   * Goes through the middleware of both desks, and emits a 'transfer' event on both.
+   */
+  transferTo: (
+    target: DeskCore<T, any>,
+    id: string | number,
+    options?: DeskTransferOptions
+  ) => Promise<boolean>;
+  /**
+   * Transfer several items, keeping their relative order in the target desk.
+   * Resolves to the ids that were transferred.
+   */
+  transferMany: (
+    target: DeskCore<T, any>,
+    ids: Array<string | number>,
+    options?: Omit<DeskTransferOptions, 'as'>
+  ) => Promise<Array<string | number>>;
+  /**
+   * Run several operations atomically.
+   * If a before-hook returns false or anything throws, the transaction's changes are
+   * undone and nothing is emitted. Changes made meanwhile by other operations are kept.
+   * Resolves to true on commit, false on cancellation.
+   * `options.signal` applies to every operation of the transaction and cancels it when aborted.
+   * A transaction started inside another one (from its callback or a hook) is nested: it runs
+   * right away and its changes are committed or rolled back with the outer one.
+   */
+  transaction: (
+    fn: (tx: DeskTransaction<T>) => void | Promise<void>,
+    options?: DeskOperationOptions
+  ) => Promise<boolean>;
+  /**
+   * Subscribe to an event. With `{ bubbled: true }`, the callback also receives
+   * events from sub-desks, with `payload.path` set.
+   */
+  on: <K extends DeskEventKey<DeskEvents<T, TEvents>>>(
+    event: K,
+    callback: DeskEventCallback<T, DeskEventPayloadOf<DeskEvents<T, TEvents>, K>>,
+    options?: { bubbled?: boolean }
+  ) => () => void;
+  /**
+   * Subscribe for a single emission
+   */
+  once: <K extends DeskEventKey<DeskEvents<T, TEvents>>>(
+    event: K,
+    callback: DeskEventCallback<T, DeskEventPayloadOf<DeskEvents<T, TEvents>, K>>,
+    options?: { bubbled?: boolean }
+  ) => () => void;
+  off: <K extends DeskEventKey<DeskEvents<T, TEvents>>>(
+    event: K,
+    callback: DeskEventCallback<T, DeskEventPayloadOf<DeskEvents<T, TEvents>, K>>
+  ) => void;
+  emit: <K extends keyof DeskEvents<T, TEvents> & string>(
+    event: K,
+    payload: DeskEvents<T, TEvents>[K]
+  ) => void;
   destroy: () => void;
 }
 
 const DebugPrefix = '[DeskCore]';
 
+/**
+ * Check-in of a transferred item in the target desk, once its duplicate policy applied
+ */
+interface DeskTransferPlan<T> {
+  id: string | number;
+  data: T;
+  /** Item replaced or merged into */
+  existing?: CheckInItem<T>;
+  merged?: boolean;
+}
+
+/**
+ * Target side of a transfer, used by the source desk
+ */
+interface DeskTransferChannel<T> {
+  errorPolicy: DeskErrorPolicy;
+  /** Runs the target's middleware around the move */
+  runMiddleware: <R>(
+    ctx: Omit<DeskMiddlewareContext<T>, 'transaction' | 'desk'>,
+    scope: TransactionScope | undefined,
+    operation: (ctx: DeskMiddlewareContext<T>) => Promise<R>
+  ) => Promise<R>;
+  /** Records the target's changes, to undo them with `rollback()` */
+  createScope: () => TransactionScope;
+  rollback: (scope: TransactionScope) => void;
+  /** Duplicate policy and before-check-in hooks. Undefined if the target refuses the item. */
+  prepare: (
+    id: string | number,
+    data: T,
+    signal?: AbortSignal
+  ) => Promise<DeskTransferPlan<T> | undefined>;
+  /** False if the target item changed since `prepare()` */
+  accepts: (plan: DeskTransferPlan<T>) => boolean;
+  commit: (
+    plan: DeskTransferPlan<T>,
+    meta?: Record<string, any>,
+    position?: RegistryPosition,
+    scope?: TransactionScope
+  ) => void;
+  complete: (
+    transfer: DeskTransfer<T>,
+    plan: DeskTransferPlan<T>,
+    signal?: AbortSignal
+  ) => Promise<void>;
+}
+
+/**
+ * Channels between desks, kept off their public surface
+ */
+interface DeskInternals {
+  attachChild: (child: DeskCore<any, any>) => void;
+  detachChild: (child: DeskCore<any, any>) => void;
+  receiveBubbled: (event: string, payload: DeskEventPayload<any>) => void;
+  /** Deliver batched events, here and on the desks above */
+  flushEvents: () => void;
+  transferIn: DeskTransferChannel<any>;
+}
+
+/**
+ * Keyed by registry: desks provided with context are copies sharing it
+ */
+const deskInternals = new WeakMap<Map<string | number, CheckInItem<any>>, DeskInternals>();
+
+const internalsOf = (desk: DeskCore<any, any> | null | undefined) =>
+  desk ? deskInternals.get(desk.registryMap) : undefined;
+
 /**
  * Creates a check-in desk core with optimized performance.
  *
@@ -132,12 +778,19 @@ const DebugPrefix = '[DeskCore]';
  * - Event batching (prevents event avalanche)
  * - Plugin lifecycle management (proper cleanup)
  */
-export const createDeskCore = <T = any, TContext extends Record<string, any> = {}>(
-  options?: DeskCoreOptions<T>
-): DeskCore<T> => {
+export const createDeskCore = <
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+  TPlugins extends DeskPlugins<T> = DeskPlugins<T>,
+>(
+  options?: DeskCoreOptions<T> & { plugins?: TPlugins }
+): DeskWithPlugins<T, TPlugins, TContext, TEvents> => {
   const debug = options?.debug ? Debug : NoOp;
   const devTools = options?.devTools ? DevTools : NoOpDevTools;
   const deskId = options?.deskId || `desk-${Math.random().toString(36).substr(2, 9)}`;
+  const onDuplicate = options?.onDuplicate ?? 'replace';
+  const orderMode = options?.order ?? 'explicit';
 
   /**
    * Internal variable to store the resolved context (will be set after desk creation)
@@ -156,122 +809,498 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
   const registryList = shallowRef<CheckInItem<T>[]>([]);
 
   /**
-   * Synchronize list with map (O(1) amortized cost)
-   * Only creates new array when registry actually changes
+   * Explicit positions of items (the Map only keeps insertion order)
    */
-  const syncList = () => {
-    registryList.value = Array.from(registryMap.values());
-  };
+  const order = new RegistryOrder();
 
-  const eventManager = new EventManager<T>({ debug: options?.debug });
-  const { on, off, emit } = {
-    on: eventManager.on.bind(eventManager),
-    off: eventManager.off.bind(eventManager),
-    emit: eventManager.emit.bind(eventManager),
-  };
+  /**
+   * Per-item refs and id set, triggered only by the items that changed
+   */
+  const itemRefs = new ItemRefs<T>(registryMap);
+  const keys = computed(() => itemRefs.keys.value);
 
-  // Sorted registry cache
-  const sortCache = new SortedRegistryCache<T>();
+  /**
+   * Open views, groups and aggregations, maintained on each change
+   */
+  const observers = new Set<RegistryObserver>();
 
   /**
-   * Computed sorted registry (stable, cached)
+   * Items from `initialState` not yet adopted by a check-in
    */
-  const sortedRegistry = computed(() => {
-    return Array.from(registryMap.values()).sort((a, b) => {
-      const aTime = a.timestamp || 0;
-      const bTime = b.timestamp || 0;
-      return aTime - bTime;
-    });
-  });
+  const hydratedIds = new Set<string | number>();
 
   /**
-   * Reactive size/count of items in the registry
+   * Components owning the items positioned by 'mount' and 'tree' order (none with 'explicit')
    */
-  const size = computed(() => registryList.value.length);
+  const owners = new ComponentOwners(orderMode === 'tree' ? 'tree' : 'mount');
 
   /**
-   * Plugins available on the desk
+   * Ids changed by a bulk operation, synced once when it ends
    */
-  const plugins = computed(() => options?.plugins || []);
+  type DeskBatch = { ids: Array<string | number> };
 
-  const pluginByName = (name: string) => {
-    return plugins.value.find((plugin) => plugin.name === name);
+  /**
+   * Synchronize list with map (O(1) amortized cost)
+   * Only creates new array when registry actually changes
+   * @param changedIds - Items that changed, for views (all items if omitted)
+   * @param reordered - Position order changed
+   */
+  const syncList = (changedIds?: Array<string | number>, reordered = false) => {
+    registryList.value = order.toArray().map((id) => registryMap.get(id)!);
+    itemRefs.sync(changedIds);
+    observers.forEach((observer) => observer.sync(changedIds, reordered));
   };
 
-  const pluginCleanups: Array<() => void> = [];
+  const ordered = computed(() => registryList.value);
 
-  const getContext = <U extends TContext>() => resolvedContext as U | undefined;
+  const eventManager = new EventManager<T>({ debug: options?.debug });
+  // Event names and payloads are checked by the DeskCore signatures
+  const { on, once, off } = {
+    on: eventManager.on.bind(eventManager) as DeskCore<T, TContext>['on'],
+    once: eventManager.once.bind(eventManager) as DeskCore<T, TContext>['once'],
+    off: eventManager.off.bind(eventManager) as DeskCore<T, TContext>['off'],
+  };
 
-  const setContext = <U extends TContext>(context: U) => {
-    resolvedContext = context;
+  /**
+   * Hierarchy: parent link and sub-desks
+   */
+  const parentRef = shallowRef<DeskCore<any, any> | null>(null);
+  const parentItemIdRef = shallowRef<string | number | undefined>(undefined);
+  const childrenRef = shallowRef<DeskCore<any, any>[]>([]);
+  const parent = computed(() => parentRef.value);
+  const parentItemId = computed(() => parentItemIdRef.value);
+  const children = computed(() => childrenRef.value);
+
+  /**
+   * Desks provided with context are shallow copies of the core object:
+   * the shared `children` computed identifies the underlying desk.
+   */
+  const isSameDesk = (a: DeskCore<any, any>, b: DeskCore<any, any>) => a.children === b.children;
+
+  /**
+   * Delivers an event to bubble listeners, then forwards it to the parent desk
+   */
+  const receiveBubbled = (event: string, payload: DeskEventPayload<T>) => {
+    const path = [...(payload.path || []), deskId];
+    eventManager.emitBubbled(event, { ...payload, path });
+    internalsOf(parentRef.value)?.receiveBubbled(event, { ...payload, path });
+  };
+
+  const emit = (event: string, payload: DeskEventPayload<T>) => {
+    eventManager.emit(event, payload);
+    receiveBubbled(event, { ...payload, path: [] });
+  };
+
+  const flushEvents = () => {
+    eventManager.flush();
+    internalsOf(parentRef.value)?.flushEvents();
+  };
+
+  // Sorted registry cache
+  const sortCache = new SortedRegistryCache<T>();
+
+  // Secondary indexes
+  const indexes = new RegistryIndexes<T>(options?.indexes);
+
+  /**
+   * Computed sorted registry (stable, cached)
+   */
+  const sortedRegistry = computed(() => {
+    return Array.from(registryMap.values()).sort((a, b) => {
+      const aTime = a.timestamp || 0;
+      const bTime = b.timestamp || 0;
+      return aTime - bTime;
+    });
+  });
+
+  /**
+   * Reactive size/count of items in the registry
+   */
+  const size = computed(() => registryList.value.length);
+
+  /**
+   * Plugins installed on the desk, from `options.plugins` then `use()`,
+   * in execution order (see `requires`, `before`, `after`)
+   */
+  const pluginGraph = new PluginGraph<DeskPlugins<T>[number]>();
+  const installedPlugins = shallowRef<DeskPlugins<T>>(
+    pluginGraph.resolve([...(options?.plugins || [])])
+  );
+  const plugins = computed(() => installedPlugins.value);
+
+  const pluginByName = (name: string) => {
+    return plugins.value.find((plugin) => plugin.name === name);
+  };
+
+  /**
+   * Plugin name -> cleanup function returned by `install`
+   */
+  const pluginCleanups = new Map<string, () => void>();
+
+  const getContext = <U extends TContext>() => resolvedContext as U | undefined;
+
+  const setContext = <U extends TContext>(context: U) => {
+    resolvedContext = context;
     // Update DevTools with new context
     devTools.updateContext(deskId, context as Record<string, unknown>);
     return context;
   };
 
-  const checkIn = async (
+  /**
+   * Runs an operation's side effects (events, DevTools, after-hooks).
+   * Inside a transaction they are deferred until commit.
+   */
+  const runEffects = async (
+    scope: TransactionScope | undefined,
+    effects: () => void | Promise<void>
+  ) => {
+    if (scope?.deferred) {
+      scope.defer(effects);
+      return;
+    }
+    await effects();
+  };
+
+  const errorPolicy: DeskErrorPolicy = options?.errorPolicy || 'abort';
+
+  /**
+   * Reports a failed plugin hook: `onError`, 'error' event and DevTools timeline
+   */
+  const reportPluginError = (error: unknown, info: DeskErrorInfo) => {
+    debug(`${DebugPrefix} ${info.hook} failed in plugin:`, info.plugin, error);
+
+    try {
+      options?.onError?.(error, info);
+    } catch (handlerError) {
+      debug(`${DebugPrefix} onError failed:`, handlerError);
+    }
+
+    const payload: DeskErrorPayload<T> = { ...info, error, policy: errorPolicy };
+    emit('error', payload);
+
+    devTools.emit({
+      type: 'plugin-error',
+      timestamp: Date.now(),
+      deskId,
+      childId: info.id,
+      pluginName: info.plugin,
+      data: {
+        hook: info.hook,
+        policy: errorPolicy,
+        message: error instanceof Error ? error.message : String(error),
+      },
+    });
+  };
+
+  const hookRunner = new HookRunner();
+
+  /**
+   * Runs a plugin hook under the error policy.
+   * With 'isolate', a failing hook resolves to undefined, otherwise its error is rethrown.
+   * `abortable` hooks (before-hooks) stop being awaited when the operation is aborted.
+   */
+  const runPluginHook = async <R>(
+    plugin: DeskPlugins<T>[number],
+    hook: string,
+    id: string | number | undefined,
+    run: (signal: AbortSignal) => R | Promise<R>,
+    signal?: AbortSignal,
+    abortable = true
+  ): Promise<R | undefined> => {
+    try {
+      return await hookRunner.run(`${plugin.name}.${hook}`, run, {
+        signal,
+        abortable,
+        timeout: plugin.hookTimeout ?? options?.hookTimeout,
+      });
+    } catch (error) {
+      // An aborted operation is not a plugin failure
+      if (abortable && signal?.aborted) throw error;
+
+      reportPluginError(error, { plugin: plugin.name, hook, id });
+      if (errorPolicy === 'isolate') return undefined;
+      throw error;
+    }
+  };
+
+  /**
+   * Runs one of the desk's own hooks (`options.on*`) with `hookTimeout` and the operation signal
+   */
+  const runDeskHook = <R>(
+    hook: string,
+    run: (signal: AbortSignal) => R | Promise<R>,
+    signal?: AbortSignal,
+    abortable = true
+  ) => hookRunner.run(hook, run, { signal, abortable, timeout: options?.hookTimeout });
+
+  /**
+   * True if the operation's signal was aborted: the operation is cancelled
+   */
+  const wasAborted = (
+    signal: AbortSignal | undefined,
+    scope: TransactionScope | undefined,
+    operation: string
+  ) => {
+    if (!signal?.aborted) return false;
+    debug(`${DebugPrefix} ${operation} aborted`);
+    scope?.cancel(`${operation} aborted`);
+    return true;
+  };
+
+  const createJournal = () =>
+    new RegistryJournal<T>({ registryMap, order, indexes, hydratedIds, owners });
+
+  /**
+   * Undoes the changes recorded in a journal.
+   * `announce` emits 'rollback' for changes whose events were already emitted.
+   */
+  const rollbackJournal = (journal: RegistryJournal<T>, announce = false) => {
+    const ids = journal.rollback();
+    if (ids.length === 0) return;
+
+    syncList();
+    sortCache.invalidate();
+    if (announce) {
+      emit('rollback', { ids });
+      devTools.emit({
+        type: 'rollback',
+        timestamp: Date.now(),
+        deskId,
+        data: { ids },
+        registrySize: registryMap.size,
+      });
+    }
+    devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+  };
+
+  /**
+   * With the 'rollback' policy, undoes the operation's changes if it (or a middleware) throws,
+   * and emits 'rollback' after the events it emitted.
+   * Inside a transaction, `transaction()` rolls back instead.
+   */
+  const withRollback = async <R>(
+    scope: TransactionScope | undefined,
+    operation: (scope: TransactionScope | undefined) => Promise<R>
+  ): Promise<R> => {
+    if (errorPolicy !== 'rollback' || scope) {
+      return operation(scope);
+    }
+
+    const operationScope = new TransactionScope(createJournal(), false);
+    try {
+      return await operation(operationScope);
+    } catch (error) {
+      rollbackJournal(operationScope.journal, true);
+      debug(`${DebugPrefix} operation rolled back`, error);
+      throw error;
+    }
+  };
+
+  const middlewarePipeline = new MiddlewarePipeline<DeskMiddlewareContext<T>>();
+
+  /**
+   * Runs an operation through plugin middleware, then `options.middleware`.
+   * The operation reads its (possibly replaced) arguments from the context,
+   * and gets the scope to record its changes in (see `withRollback`, around the middleware).
+   */
+  const runMiddleware = <R>(
+    ctx: Omit<DeskMiddlewareContext<T>, 'transaction' | 'desk'>,
+    scope: TransactionScope | undefined,
+    operation: (
+      ctx: DeskMiddlewareContext<T>,
+      scope: TransactionScope | undefined
+    ) => R | Promise<R>
+  ): Promise<R> => {
+    const middleware = [
+      ...plugins.value.flatMap((plugin) => (plugin.middleware ? [plugin.middleware] : [])),
+      ...(options?.middleware || []),
+    ];
+    return withRollback(scope, (operationScope) =>
+      middlewarePipeline.run(middleware, { ...ctx, transaction: !!scope?.deferred, desk }, (ctx) =>
+        operation(ctx, operationScope)
+      )
+    );
+  };
+
+  /**
+   * Before-check-in hooks and unique index checks.
+   * Resolves to false if the check-in must not happen.
+   */
+  const runBeforeCheckIn = async (
     id: string | number,
     data: T,
-    meta?: Record<string, any>
+    scope?: TransactionScope,
+    signal?: AbortSignal
   ): Promise<boolean> => {
-    debug(`${DebugPrefix} checkIn`, { id, data, meta });
-
-    // Lifecycle: before (plugins first, then user hook)
-    if (options?.plugins) {
-      for (const plugin of options.plugins) {
+    try {
+      // Lifecycle: before (plugins first, then user hook)
+      for (const plugin of plugins.value) {
         if (plugin.onBeforeCheckIn) {
-          const result = await plugin.onBeforeCheckIn(id, data, desk);
+          const result = await runPluginHook(
+            plugin,
+            'onBeforeCheckIn',
+            id,
+            (hookSignal) => plugin.onBeforeCheckIn!(id, data, desk, hookSignal),
+            signal
+          );
           if (result === false) {
             debug(`${DebugPrefix} checkIn cancelled by plugin:`, plugin.name);
+            scope?.cancel(`checkIn '${id}' cancelled by plugin '${plugin.name}'`);
             return false;
           }
         }
       }
+
+      if (options?.onBeforeCheckIn) {
+        const result = await runDeskHook(
+          'onBeforeCheckIn',
+          (hookSignal) => options.onBeforeCheckIn!(id, data, hookSignal),
+          signal
+        );
+        if (result === false) {
+          debug(`${DebugPrefix} checkIn cancelled by onBeforeCheckIn`, id);
+          scope?.cancel(`checkIn '${id}' cancelled by onBeforeCheckIn`);
+          return false;
+        }
+      }
+    } catch (error) {
+      if (wasAborted(signal, scope, `checkIn '${id}'`)) return false;
+      throw error;
+    }
+
+    if (wasAborted(signal, scope, `checkIn '${id}'`)) return false;
+
+    const conflict = indexes.findConflict(id, data);
+    if (conflict) {
+      debug(`${DebugPrefix} checkIn rejected: duplicate '${conflict.key}' on`, conflict.id);
+      scope?.cancel(`checkIn '${id}' duplicates unique '${conflict.key}' of '${conflict.id}'`);
+      return false;
+    }
+
+    return true;
+  };
+
+  /**
+   * Check-in of an item that came from `initialState`: it is already there, so only
+   * its data is replaced (the hydrated copy lacks what can't be serialized).
+   * Version, timestamp and position are kept, and neither hooks nor events run.
+   */
+  const adoptHydrated = (
+    id: string | number,
+    data: T,
+    meta?: Record<string, any>,
+    checkInOptions?: DeskCheckInOptions,
+    scope?: TransactionScope,
+    batch?: DeskBatch
+  ) => {
+    debug(`${DebugPrefix} checkIn adopted hydrated item:`, id);
+
+    scope?.journal.record(id);
+    hydratedIds.delete(id);
+    const hydrated = registryMap.get(id)!;
+    const item: CheckInItem<T> = { ...hydrated, data, meta: meta ?? hydrated.meta };
+    registryMap.set(id, item);
+    indexes.add(item);
+    insertOrdered(id, checkInOptions);
+
+    if (batch) {
+      batch.ids.push(id);
+    } else {
+      syncList([id]);
+      sortCache.invalidate();
+    }
+    devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+    return true;
+  };
+
+  const applyCheckIn = async (
+    id: string | number,
+    data: T,
+    meta?: Record<string, any>,
+    checkInOptions?: DeskCheckInOptions,
+    scope?: TransactionScope,
+    batch?: DeskBatch
+  ): Promise<boolean> => {
+    debug(`${DebugPrefix} checkIn`, { id, data, meta });
+
+    if (hydratedIds.has(id) && registryMap.has(id)) {
+      return adoptHydrated(id, data, meta, checkInOptions, scope, batch);
     }
 
-    if (options?.onBeforeCheckIn) {
-      const result = await options.onBeforeCheckIn(id, data);
-      if (result === false) {
-        debug(`${DebugPrefix} checkIn cancelled by onBeforeCheckIn`, id);
+    const requestedId = id;
+    let existing = registryMap.get(id);
+    let merged = false;
+    if (existing) {
+      const policy = checkInOptions?.onDuplicate ?? onDuplicate;
+      if (policy === 'reject') {
+        debug(`${DebugPrefix} checkIn rejected: '${id}' is already checked in`);
+        scope?.cancel(`checkIn '${id}' rejected: id already checked in`);
         return false;
       }
+      if (policy === 'rename') {
+        id = resolveId(id, policy);
+        existing = undefined;
+        debug(`${DebugPrefix} checkIn renamed: '${requestedId}' is taken, using '${id}'`);
+      } else if (policy === 'merge') {
+        data = { ...existing.data, ...data };
+        meta = existing.meta || meta ? { ...existing.meta, ...meta } : undefined;
+        merged = true;
+      }
     }
 
+    if (!(await runBeforeCheckIn(id, data, scope, checkInOptions?.signal))) return false;
+
     // Update registry (O(1))
-    registryMap.set(id, {
+    scope?.journal.record(id);
+    const item: CheckInItem<T> = {
       id,
       data,
-      timestamp: Date.now(),
+      version: (existing?.version ?? 0) + 1,
+      timestamp: merged ? existing!.timestamp : Date.now(),
       meta,
-    });
+    };
+    registryMap.set(id, item);
+    indexes.add(item);
+    insertOrdered(id, checkInOptions);
 
     // Sync list (O(N) but only once per batch of changes)
-    syncList();
-
-    // Invalidate sort cache
-    sortCache.invalidate();
+    if (batch) {
+      batch.ids.push(id);
+    } else {
+      syncList([id]);
+      sortCache.invalidate();
+    }
 
-    // Emit event
-    emit('check-in', { id, data });
+    await runEffects(scope, async () => {
+      if (!batch) {
+        // Emit event
+        emit('check-in', id === requestedId ? { id, data } : { id, data, requestedId });
 
-    // DevTools integration
-    devTools.emit({
-      type: 'check-in',
-      timestamp: Date.now(),
-      deskId,
-      childId: id,
-      data: data as Record<string, unknown>,
-      meta: meta as Record<string, unknown>,
-      registrySize: registryMap.size,
-    });
-    devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+        // DevTools integration
+        devTools.emit({
+          type: 'check-in',
+          timestamp: Date.now(),
+          deskId,
+          childId: id,
+          data: data as Record<string, unknown>,
+          meta: meta as Record<string, unknown>,
+          registrySize: registryMap.size,
+        });
+        devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+      }
 
-    // Call plugin hooks and track execution
-    if (options?.plugins) {
-      for (const plugin of options.plugins) {
+      // Call plugin hooks and track execution
+      for (const plugin of plugins.value) {
         if (plugin.onCheckIn) {
           const startTime = performance.now();
-          await plugin.onCheckIn(id, data, desk);
+          await runPluginHook(
+            plugin,
+            'onCheckIn',
+            id,
+            (hookSignal) => plugin.onCheckIn!(id, data, desk, hookSignal),
+            checkInOptions?.signal,
+            false
+          );
           const duration = performance.now() - startTime;
 
           devTools.emit({
@@ -285,12 +1314,17 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
           });
         }
       }
-    }
 
-    // Lifecycle: after
-    if (options?.onCheckIn) {
-      await options.onCheckIn(id, data, desk);
-    }
+      // Lifecycle: after
+      if (options?.onCheckIn) {
+        await runDeskHook(
+          'onCheckIn',
+          (hookSignal) => options.onCheckIn!(id, data, desk, hookSignal),
+          checkInOptions?.signal,
+          false
+        );
+      }
+    });
 
     if (options?.debug) {
       debug(`${DebugPrefix} Registry state after check-in:`, {
@@ -302,59 +1336,181 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
     return true;
   };
 
-  const checkOut = async (id: string | number): Promise<boolean> => {
-    debug(`${DebugPrefix} checkOut`, id);
+  const performCheckIn = (
+    id: string | number,
+    data: T,
+    meta?: Record<string, any>,
+    checkInOptions?: DeskCheckInOptions,
+    scope?: TransactionScope,
+    batch?: DeskBatch
+  ) =>
+    runMiddleware<boolean>(
+      {
+        operation: 'checkIn',
+        id,
+        data,
+        meta,
+        position: checkInOptions,
+        signal: checkInOptions?.signal,
+      },
+      scope,
+      (ctx, operationScope) =>
+        applyCheckIn(
+          ctx.id!,
+          ctx.data as T,
+          ctx.meta,
+          { ...ctx.position, signal: ctx.signal },
+          operationScope,
+          batch
+        )
+    );
+
+  const checkIn = (
+    id: string | number,
+    data: T,
+    meta?: Record<string, any>,
+    checkInOptions?: DeskCheckInOptions
+  ) => performCheckIn(id, data, meta, checkInOptions);
 
-    const existed = registryMap.has(id);
-    if (!existed) return false;
+  const resolveId = (
+    id: string | number,
+    policy: DeskDuplicatePolicy = onDuplicate
+  ): string | number => {
+    if (policy !== 'rename' || !registryMap.has(id)) return id;
+    let suffix = 2;
+    while (registryMap.has(`${id}-${suffix}`)) suffix++;
+    return `${id}-${suffix}`;
+  };
+
+  const isHydrated = (id: string | number) => hydratedIds.has(id);
+
+  /**
+   * Position an item: by its component with 'mount' and 'tree' order,
+   * unless the check-in gives a position
+   */
+  const insertOrdered = (id: string | number, checkInOptions?: DeskCheckInOptions) => {
+    const owner = checkInOptions?.owner;
+    const hasPosition =
+      checkInOptions?.index !== undefined ||
+      checkInOptions?.before !== undefined ||
+      checkInOptions?.after !== undefined;
+
+    if (orderMode === 'explicit' || !owner || hasPosition) {
+      owners.delete(id);
+      order.insert(id, checkInOptions);
+      return;
+    }
 
-    // Lifecycle: before (plugins first, then user hook)
-    if (options?.plugins) {
-      for (const plugin of options.plugins) {
+    owners.set(id, owner);
+    // Owned items are kept sorted: before the first one after this owner
+    const next = owners.after(owner);
+    order.insert(id, next !== undefined ? { before: next } : { index: -1 });
+  };
+
+  /**
+   * Before-check-out hooks. Resolves to false if the check-out must not happen.
+   */
+  const runBeforeCheckOut = async (
+    id: string | number,
+    scope?: TransactionScope,
+    signal?: AbortSignal
+  ): Promise<boolean> => {
+    try {
+      // Lifecycle: before (plugins first, then user hook)
+      for (const plugin of plugins.value) {
         if (plugin.onBeforeCheckOut) {
-          const result = await plugin.onBeforeCheckOut(id, desk);
+          const result = await runPluginHook(
+            plugin,
+            'onBeforeCheckOut',
+            id,
+            (hookSignal) => plugin.onBeforeCheckOut!(id, desk, hookSignal),
+            signal
+          );
           if (result === false) {
             debug(`${DebugPrefix} checkOut cancelled by plugin:`, plugin.name);
+            scope?.cancel(`checkOut '${id}' cancelled by plugin '${plugin.name}'`);
             return false;
           }
         }
       }
-    }
 
-    if (options?.onBeforeCheckOut) {
-      const result = await options.onBeforeCheckOut(id, desk);
-      if (result === false) {
-        debug(`${DebugPrefix} checkOut cancelled by onBeforeCheckOut`, id);
-        return false;
+      if (options?.onBeforeCheckOut) {
+        const result = await runDeskHook(
+          'onBeforeCheckOut',
+          (hookSignal) => options.onBeforeCheckOut!(id, desk, hookSignal),
+          signal
+        );
+        if (result === false) {
+          debug(`${DebugPrefix} checkOut cancelled by onBeforeCheckOut`, id);
+          scope?.cancel(`checkOut '${id}' cancelled by onBeforeCheckOut`);
+          return false;
+        }
       }
+    } catch (error) {
+      if (wasAborted(signal, scope, `checkOut '${id}'`)) return false;
+      throw error;
     }
+
+    return !wasAborted(signal, scope, `checkOut '${id}'`);
+  };
+
+  const applyCheckOut = async (
+    id: string | number,
+    scope?: TransactionScope,
+    signal?: AbortSignal,
+    batch?: DeskBatch
+  ): Promise<boolean> => {
+    debug(`${DebugPrefix} checkOut`, id);
+
+    const existed = registryMap.has(id);
+    if (!existed) return false;
+
+    if (!(await runBeforeCheckOut(id, scope, signal))) return false;
+
     // Update registry (O(1))
+    scope?.journal.record(id);
     registryMap.delete(id);
+    hydratedIds.delete(id);
+    owners.delete(id);
+    indexes.remove(id);
+    order.remove(id);
 
     // Sync list
-    syncList();
+    if (batch) {
+      batch.ids.push(id);
+    } else {
+      syncList([id]);
+      sortCache.invalidate();
+    }
 
-    // Invalidate sort cache
-    sortCache.invalidate();
-    // Emit event
-    emit('check-out', { id });
+    await runEffects(scope, async () => {
+      if (!batch) {
+        // Emit event
+        emit('check-out', { id });
 
-    // DevTools integration
-    devTools.emit({
-      type: 'check-out',
-      timestamp: Date.now(),
-      deskId,
-      childId: id,
-      registrySize: registryMap.size,
-    });
-    devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+        // DevTools integration
+        devTools.emit({
+          type: 'check-out',
+          timestamp: Date.now(),
+          deskId,
+          childId: id,
+          registrySize: registryMap.size,
+        });
+        devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+      }
 
-    // Call plugin hooks and track execution
-    if (options?.plugins) {
-      for (const plugin of options.plugins) {
+      // Call plugin hooks and track execution
+      for (const plugin of plugins.value) {
         if (plugin.onCheckOut) {
           const startTime = performance.now();
-          await plugin.onCheckOut(id, desk);
+          await runPluginHook(
+            plugin,
+            'onCheckOut',
+            id,
+            (hookSignal) => plugin.onCheckOut!(id, desk, hookSignal),
+            signal,
+            false
+          );
           const duration = performance.now() - startTime;
 
           devTools.emit({
@@ -368,12 +1524,17 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
           });
         }
       }
-    }
 
-    // Lifecycle: after
-    if (options?.onCheckOut) {
-      await options.onCheckOut(id, desk);
-    }
+      // Lifecycle: after
+      if (options?.onCheckOut) {
+        await runDeskHook(
+          'onCheckOut',
+          (hookSignal) => options.onCheckOut!(id, desk, hookSignal),
+          signal,
+          false
+        );
+      }
+    });
 
     if (options?.debug) {
       debug(`${DebugPrefix} Registry state after check-out:`, {
@@ -385,7 +1546,49 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
     return true;
   };
 
-  const get = (id: string | number) => registryList.value.find((item) => item.id === id);
+  const performCheckOut = (
+    id: string | number,
+    operationOptions?: DeskOperationOptions,
+    scope?: TransactionScope,
+    batch?: DeskBatch
+  ) =>
+    runMiddleware<boolean>(
+      { operation: 'checkOut', id, signal: operationOptions?.signal },
+      scope,
+      (ctx, operationScope) => applyCheckOut(ctx.id!, operationScope, ctx.signal, batch)
+    );
+
+  const checkOut = (id: string | number, operationOptions?: DeskOperationOptions) =>
+    performCheckOut(id, operationOptions);
+
+  /**
+   * Registers a reactive dependency on the registry, so O(1) reads
+   * from the Map still re-run inside computed properties and watchers.
+   */
+  const trackRegistry = () => registryList.value;
+
+  const get = (id: string | number) => {
+    trackRegistry();
+    return registryMap.get(id);
+  };
+
+  const itemRef = (id: string | number) => itemRefs.get(id);
+
+  const findBy = <K extends keyof T & string>(key: K, value: T[K]): CheckInItem<T>[] => {
+    const list = trackRegistry();
+    const index = indexes.get(key);
+
+    if (!index) {
+      debug(`${DebugPrefix} findBy on non-indexed key '${key}' - scanning registry`);
+      return list.filter((item) => item.data?.[key] === value);
+    }
+
+    const ids = index.lookup(value);
+    if (!ids) return [];
+    return Array.from(ids, (id) => registryMap.get(id)!);
+  };
+
+  const findOneBy = <K extends keyof T & string>(key: K, value: T[K]) => findBy(key, value)[0];
 
   const getAll = (sortOptions?: { sortBy?: keyof T | 'timestamp'; order?: 'asc' | 'desc' }) => {
     // Check cache first
@@ -402,10 +1605,8 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
       return result;
     }
 
-    syncList();
-
-    // Perform sort
-    const sorted = registryList.value.sort((a, b) => {
+    // Perform sort (on a copy: registryList keeps the position order)
+    const sorted = registryList.value.slice().sort((a, b) => {
       let aVal: any, bVal: any;
 
       if (sortOptions.sortBy === 'timestamp') {
@@ -427,7 +1628,51 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
     return sorted;
   };
 
-  const update = async (id: string | number, data: Partial<T>): Promise<boolean> => {
+  /**
+   * Registers a view, groups or aggregation. Those created in a component stop with it.
+   */
+  const observe = <O extends RegistryObserver & { stop: () => void }>(observer: O): O => {
+    observers.add(observer);
+    if (getCurrentScope()) {
+      onScopeDispose(observer.stop);
+    }
+    return observer;
+  };
+
+  const stopObserving = (observer: RegistryObserver) => observers.delete(observer);
+
+  const view = (viewOptions: DeskViewOptions<T> = {}): DeskView<T> =>
+    observe(
+      new RegistryView<T>(
+        registryMap,
+        () => registryList.value,
+        (id) => order.indexOf(id),
+        viewOptions,
+        stopObserving
+      )
+    );
+
+  const groupBy = <K = any>(key: keyof T | ((item: CheckInItem<T>) => K)): DeskGroups<T, K> =>
+    observe(
+      new RegistryGroups<T, K>(
+        registryMap,
+        typeof key === 'function' ? key : (item) => item.data?.[key] as K,
+        stopObserving
+      )
+    );
+
+  const aggregate = <S extends DeskAggregateSpec<T>>(spec: S): DeskAggregation<S> =>
+    observe(new RegistryAggregation<T, S>(registryMap, spec, stopObserving));
+
+  const applyUpdate = async (
+    id: string | number,
+    data: Partial<T>,
+    scope?: TransactionScope,
+    signal?: AbortSignal,
+    expectedVersion?: number,
+    onConflict?: (current: CheckInItem<T>) => void,
+    batch?: DeskBatch
+  ): Promise<boolean> => {
     const existing = registryMap.get(id);
     if (!existing) {
       debug(`${DebugPrefix} update failed: item not found`, id);
@@ -435,36 +1680,86 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
     }
 
     // Call onBeforeUpdate hooks
-    if (options?.plugins) {
-      for (const plugin of options.plugins) {
+    try {
+      for (const plugin of plugins.value) {
         if (plugin.onBeforeUpdate) {
-          const result = await plugin.onBeforeUpdate(id, data, desk);
+          const result = await runPluginHook(
+            plugin,
+            'onBeforeUpdate',
+            id,
+            (hookSignal) => plugin.onBeforeUpdate!(id, data, desk, hookSignal),
+            signal
+          );
           if (result === false) {
             debug(`${DebugPrefix} update cancelled by plugin:`, plugin.name);
+            scope?.cancel(`update '${id}' cancelled by plugin '${plugin.name}'`);
             return false;
           }
         }
       }
+    } catch (error) {
+      if (wasAborted(signal, scope, `update '${id}'`)) return false;
+      throw error;
     }
 
-    if (typeof existing.data === 'object' && typeof data === 'object') {
-      const previousData = { ...existing.data };
-
-      // Direct mutation (performant - reactivity is ensured via syncList())
-      Object.assign(existing.data as object, data);
+    if (wasAborted(signal, scope, `update '${id}'`)) return false;
 
-      // Sync list (triggers reactivity for registryList)
-      syncList();
+    // Checked after the hooks: another write may have landed while they ran
+    if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+      debug(`${DebugPrefix} update rejected: version conflict on`, id, {
+        expected: expectedVersion,
+        actual: existing.version,
+      });
+      scope?.cancel(
+        `update '${id}' expected version ${expectedVersion}, found ${existing.version}`
+      );
+      onConflict?.(existing);
+      return false;
+    }
 
-      // Invalidate sort cache only if sorted fields might have changed
-      sortCache.invalidate();
+    if (typeof existing.data === 'object' && typeof data === 'object') {
+      const conflict = indexes.findConflict(id, { ...existing.data, ...data });
+      if (conflict) {
+        debug(`${DebugPrefix} update rejected: duplicate '${conflict.key}' on`, conflict.id);
+        scope?.cancel(`update '${id}' duplicates unique '${conflict.key}' of '${conflict.id}'`);
+        return false;
+      }
+
+      const previousData = { ...existing.data };
+      scope?.journal.record(id);
+
+      if (options?.immutable) {
+        // New object: watchers and history get distinct snapshots
+        existing.data = { ...existing.data, ...data };
+      } else {
+        // Direct mutation (performant - reactivity is ensured via syncList())
+        Object.assign(existing.data as object, data);
+      }
+      existing.version++;
+      indexes.add(existing);
+
+      // Sync list (triggers reactivity for registryList)
+      if (batch) {
+        batch.ids.push(id);
+      } else {
+        syncList([id]);
+        // Invalidate sort cache only if sorted fields might have changed
+        sortCache.invalidate();
+      }
 
-      // Call onUpdate hooks and track execution
-      if (options?.plugins) {
-        for (const plugin of options.plugins) {
+      await runEffects(scope, async () => {
+        // Call onUpdate hooks and track execution
+        for (const plugin of plugins.value) {
           if (plugin.onUpdate) {
             const startTime = performance.now();
-            await plugin.onUpdate(id, existing.data, desk);
+            await runPluginHook(
+              plugin,
+              'onUpdate',
+              id,
+              (hookSignal) => plugin.onUpdate!(id, existing.data, desk, hookSignal),
+              signal,
+              false
+            );
             const duration = performance.now() - startTime;
 
             devTools.emit({
@@ -478,22 +1773,24 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
             });
           }
         }
-      }
 
-      // Emit event (will be batched)
-      emit('update', { id, data: existing.data });
+        if (batch) return;
 
-      // DevTools integration
-      devTools.emit({
-        type: 'update',
-        timestamp: Date.now(),
-        deskId,
-        childId: id,
-        data: data as Record<string, unknown>,
-        previousData: previousData as Record<string, unknown>,
-        registrySize: registryMap.size,
+        // Emit event (will be batched)
+        emit('update', { id, data: existing.data });
+
+        // DevTools integration
+        devTools.emit({
+          type: 'update',
+          timestamp: Date.now(),
+          deskId,
+          childId: id,
+          data: data as Record<string, unknown>,
+          previousData: previousData as Record<string, unknown>,
+          registrySize: registryMap.size,
+        });
+        devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
       });
-      devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
 
       if (options?.debug) {
         debug(`${DebugPrefix} update diff:`, {
@@ -510,7 +1807,61 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
     return false;
   };
 
-  const switchItems = async (from: string | number, to: string | number): Promise<void> => {
+  const performUpdate = async (
+    id: string | number,
+    data: Partial<T>,
+    operationOptions?: DeskUpdateOptions,
+    scope?: TransactionScope,
+    batch?: DeskBatch
+  ): Promise<DeskUpdateResult<T>> => {
+    let conflict: { expectedVersion: number; item: CheckInItem<T> } | undefined;
+
+    const updated = await runMiddleware<boolean>(
+      {
+        operation: 'update',
+        id,
+        data,
+        expectedVersion: operationOptions?.expectedVersion,
+        signal: operationOptions?.signal,
+      },
+      scope,
+      (ctx, operationScope) => {
+        // Middleware may call next() again (retry): only the last attempt counts
+        conflict = undefined;
+        return applyUpdate(
+          ctx.id!,
+          ctx.data as Partial<T>,
+          operationScope,
+          ctx.signal,
+          ctx.expectedVersion,
+          (item) => (conflict = { expectedVersion: ctx.expectedVersion!, item }),
+          batch
+        );
+      }
+    );
+
+    if (updated) return { status: 'updated', item: registryMap.get(id)! };
+    if (conflict) return { status: 'conflict', ...conflict };
+    return { status: 'rejected' };
+  };
+
+  const update = (async (
+    id: string | number,
+    data: Partial<T>,
+    operationOptions?: DeskUpdateOptions
+  ) => {
+    const result = await performUpdate(id, data, operationOptions);
+    return operationOptions?.expectedVersion !== undefined ? result : result.status === 'updated';
+  }) as DeskCore<T, TContext, TEvents>['update'];
+
+  const applySwitchItems = async (
+    from: string | number,
+    to: string | number,
+    scope?: TransactionScope,
+    signal?: AbortSignal
+  ): Promise<void> => {
+    if (wasAborted(signal, scope, `switch '${from}' / '${to}'`)) return;
+
     const itemFrom = registryMap.get(from);
     const itemTo = registryMap.get(to);
 
@@ -520,43 +1871,173 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
     }
 
     // Swap data
+    scope?.journal.record(from);
+    scope?.journal.record(to);
     const tempData = itemFrom.data;
     itemFrom.data = itemTo.data;
     itemTo.data = tempData;
+    itemFrom.version++;
+    itemTo.version++;
+    indexes.add(itemFrom);
+    indexes.add(itemTo);
 
     // Sync list
-    syncList();
+    syncList([from, to]);
 
     // Invalidate sort cache
     sortCache.invalidate();
 
-    // Emit events
-    // TODO: Not 2 events, but a single "switch" event with from/to info
-    emit('switch', { from, to });
+    await runEffects(scope, () => {
+      // Emit events
+      // TODO: Not 2 events, but a single "switch" event with from/to info
+      emit('switch', { from, to });
 
-    // DevTools integration
-    devTools.emit({
-      type: 'switch',
-      timestamp: Date.now(),
-      deskId,
-      fromId: from,
-      toId: to,
-      registrySize: registryMap.size,
+      // DevTools integration
+      devTools.emit({
+        type: 'switch',
+        timestamp: Date.now(),
+        deskId,
+        fromId: from,
+        toId: to,
+        registrySize: registryMap.size,
+      });
+      devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
     });
-    devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
 
     if (options?.debug) {
       debug(`${DebugPrefix} switch completed:`, { from, to });
     }
   };
 
-  const has = (id: string | number) => registryList.value.some((item) => item.id === id);
+  const performSwitchItems = (
+    from: string | number,
+    to: string | number,
+    operationOptions?: DeskOperationOptions,
+    scope?: TransactionScope
+  ) =>
+    runMiddleware<void>(
+      { operation: 'switch', from, to, signal: operationOptions?.signal },
+      scope,
+      (ctx, operationScope) => applySwitchItems(ctx.from!, ctx.to!, operationScope, ctx.signal)
+    );
+
+  const switchItems = (
+    from: string | number,
+    to: string | number,
+    operationOptions?: DeskOperationOptions
+  ) => performSwitchItems(from, to, operationOptions);
+
+  const performMove = async (
+    id: string | number,
+    toIndex: number,
+    scope?: TransactionScope
+  ): Promise<boolean> => {
+    scope?.journal.record(id);
+    const fromIndex = order.move(id, toIndex);
+    if (fromIndex === -1) {
+      debug(`${DebugPrefix} move failed: item not found`, id);
+      return false;
+    }
+
+    const newIndex = order.indexOf(id);
+    if (newIndex === fromIndex) return true;
+
+    syncList([], true);
+    sortCache.invalidate();
+
+    await runEffects(scope, () => {
+      emit('move', { id, from: fromIndex, to: newIndex });
+
+      devTools.emit({
+        type: 'move',
+        timestamp: Date.now(),
+        deskId,
+        childId: id,
+        data: { from: fromIndex, to: newIndex },
+        registrySize: registryMap.size,
+      });
+      devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+    });
+
+    debug(`${DebugPrefix} move completed:`, { id, from: fromIndex, to: newIndex });
+    return true;
+  };
+
+  const move = (id: string | number, toIndex: number) => performMove(id, toIndex);
+
+  const performReorder = async (
+    ids: Array<string | number>,
+    scope?: TransactionScope
+  ): Promise<void> => {
+    scope?.journal.recordOrder();
+    order.reorder(ids);
+    const newOrder = order.toArray();
+
+    syncList([], true);
+    sortCache.invalidate();
+
+    await runEffects(scope, () => {
+      emit('reorder', { ids: newOrder });
+
+      devTools.emit({
+        type: 'reorder',
+        timestamp: Date.now(),
+        deskId,
+        data: { order: newOrder },
+        registrySize: registryMap.size,
+      });
+      devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+    });
+
+    debug(`${DebugPrefix} reorder completed:`, newOrder);
+  };
+
+  const reorder = (ids: Array<string | number>) => performReorder(ids);
+
+  const refreshOrder = async () => {
+    if (orderMode === 'explicit' || owners.size === 0) return;
+
+    // Only items owned by a component move, within the places they already take
+    const current = order.toArray();
+    const slots = current.flatMap((id, index) => (owners.has(id) ? [index] : []));
+    const sorted = owners.sort();
+
+    const next = current.slice();
+    slots.forEach((slot, index) => {
+      next[slot] = sorted[index];
+    });
+    if (next.every((id, index) => id === current[index])) return;
+
+    debug(`${DebugPrefix} refreshOrder: items moved in the component tree`);
+    await performReorder(next);
+  };
+
+  const indexOf = (id: string | number) => {
+    trackRegistry();
+    return order.indexOf(id);
+  };
+
+  const has = (id: string | number) => {
+    trackRegistry();
+    return registryMap.has(id);
+  };
+
+  const applyClear = (signal?: AbortSignal, scope?: TransactionScope) => {
+    if (wasAborted(signal, undefined, 'clear')) return;
 
-  const clear = () => {
     debug(`${DebugPrefix} clear`);
     const count = registryMap.size;
 
+    if (scope) {
+      scope.journal.recordOrder();
+      registryMap.forEach((_, id) => scope.journal.record(id));
+    }
+
     registryMap.clear();
+    hydratedIds.clear();
+    owners.clear();
+    indexes.clear();
+    order.clear();
     syncList();
     sortCache.clear();
 
@@ -575,31 +2056,673 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
     debug(`${DebugPrefix} Cleared ${count} items from registry`);
   };
 
-  const checkInMany = async (
-    items: Array<{ id: string | number; data: T; meta?: Record<string, any> }>
+  const clear = (operationOptions?: DeskOperationOptions) =>
+    runMiddleware<void>(
+      { operation: 'clear', signal: operationOptions?.signal },
+      undefined,
+      (ctx, operationScope) => applyClear(ctx.signal, operationScope)
+    );
+
+  const snapshot = (): DeskSnapshot<T> => {
+    const state: DeskSnapshot<T> = {
+      version: DESK_SNAPSHOT_VERSION,
+      deskId,
+      items: order.toArray().map((id) => snapshotItem(registryMap.get(id)!)),
+    };
+
+    if (resolvedContext) {
+      const context: Record<string, unknown> = {};
+      Object.keys(resolvedContext).forEach((key) => {
+        const value = toSerializable(resolvedContext![key]);
+        if (value !== undefined) context[key] = value;
+      });
+      state.context = context;
+    }
+
+    plugins.value.forEach((plugin) => {
+      if (plugin.serialize) {
+        state.plugins = state.plugins || {};
+        state.plugins[plugin.name] = toSerializable(plugin.serialize(desk));
+      }
+    });
+
+    return state;
+  };
+
+  /**
+   * Apply field changes to an item in place. Fields holding a ref get the value,
+   * and with `immutable` the objects along the path are copied.
+   */
+  const applyFieldChanges = (item: CheckInItem<T>, fields: DeskFieldChange[]) => {
+    fields.forEach(({ path, after }) => {
+      let target = item as Record<string, any>;
+      path.slice(0, -1).forEach((key) => {
+        const next = target[key];
+        target[key] =
+          typeof next === 'object' && next !== null
+            ? options?.immutable
+              ? { ...next }
+              : next
+            : {};
+        target = target[key];
+      });
+
+      const key = path[path.length - 1]!;
+      if (after === undefined) {
+        delete target[key];
+      } else if (isRef(target[key])) {
+        target[key].value = toSerializable(after);
+      } else {
+        target[key] = toSerializable(after);
+      }
+    });
+  };
+
+  const restore = (target: DeskSnapshot<T>) => {
+    if (target.version !== DESK_SNAPSHOT_VERSION) {
+      throw new Error(
+        `${DebugPrefix} Unsupported snapshot version ${target.version} (expected ${DESK_SNAPSHOT_VERSION})`
+      );
+    }
+    debug(`${DebugPrefix} restore`, target.items.length, 'items');
+
+    const { added, removed, changed } = diffSnapshots(snapshot(), target);
+
+    removed.forEach(({ id }) => {
+      registryMap.delete(id);
+      hydratedIds.delete(id);
+      owners.delete(id);
+    });
+    added.forEach((entry) => {
+      registryMap.set(entry.id, {
+        id: entry.id,
+        data: toSerializable(entry.data) as T,
+        meta: toSerializable(entry.meta) as Record<string, any> | undefined,
+        version: entry.version,
+        timestamp: entry.timestamp ?? Date.now(),
+      });
+    });
+    changed.forEach(({ id, fields }) => {
+      const item = registryMap.get(id)!;
+      applyFieldChanges(item, fields);
+      item.version++;
+    });
+
+    order.reset(target.items.map((item) => item.id));
+    indexes.rebuild(registryMap);
+    syncList();
+    sortCache.invalidate();
+
+    // Context values are written back into refs where the context holds refs
+    if (resolvedContext && target.context) {
+      const context = resolvedContext as Record<string, any>;
+      Object.entries(target.context).forEach(([key, value]) => {
+        if (isRef(context[key])) context[key].value = toSerializable(value);
+        else context[key] = toSerializable(value);
+      });
+      devTools.updateContext(deskId, context);
+    }
+
+    plugins.value.forEach((plugin) => {
+      if (plugin.hydrate && target.plugins && plugin.name in target.plugins) {
+        plugin.hydrate(target.plugins[plugin.name], desk);
+      }
+    });
+
+    removed.forEach(({ id }) => emit('check-out', { id }));
+    added.forEach(({ id }) => emit('check-in', { id, data: registryMap.get(id)!.data }));
+    changed.forEach(({ id }) => emit('update', { id, data: registryMap.get(id)!.data }));
+
+    const ids = [...removed, ...added, ...changed].map(({ id }) => id);
+    // Listeners get 'restore' after the batched 'update' events
+    flushEvents();
+    emit('restore', { ids });
+    devTools.emit({
+      type: 'restore',
+      timestamp: Date.now(),
+      deskId,
+      data: { added: added.length, removed: removed.length, changed: changed.length },
+      registrySize: registryMap.size,
+    });
+    devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+  };
+
+  /**
+   * Runs a bulk operation. Hooks and middleware still run per item, but the list,
+   * caches and DevTools registry are synced once, and a single 'batch' event
+   * replaces the per-item events.
+   */
+  const runBatch = async (
+    operation: DeskOperation,
+    run: (batch: DeskBatch) => Promise<void>
   ): Promise<void> => {
-    debug(`${DebugPrefix} checkInMany`, items.length, 'items');
-    for (const { id, data, meta } of items) {
-      await checkIn(id, data, meta);
+    const batch: DeskBatch = { ids: [] };
+    try {
+      await run(batch);
+    } finally {
+      // Also after a failure: the items processed so far stay changed
+      const ids = [...new Set(batch.ids)];
+      if (ids.length > 0) {
+        syncList(ids);
+        sortCache.invalidate();
+
+        emit('batch', { operation, ids });
+        devTools.emit({
+          type: 'batch',
+          timestamp: Date.now(),
+          deskId,
+          data: { operation, ids },
+          registrySize: registryMap.size,
+        });
+        devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+      }
     }
   };
 
-  const checkOutMany = async (ids: Array<string | number>): Promise<void> => {
+  const checkInMany = (
+    items: Array<{ id: string | number; data: T; meta?: Record<string, any> }>,
+    operationOptions?: DeskOperationOptions
+  ): Promise<void> => {
+    debug(`${DebugPrefix} checkInMany`, items.length, 'items');
+    return runBatch('checkIn', async (batch) => {
+      for (const { id, data, meta } of items) {
+        await performCheckIn(id, data, meta, operationOptions, undefined, batch);
+      }
+    });
+  };
+
+  const checkOutMany = (
+    ids: Array<string | number>,
+    operationOptions?: DeskOperationOptions
+  ): Promise<void> => {
     debug(`${DebugPrefix} checkOutMany`, ids.length, 'items');
-    for (const id of ids) {
-      await checkOut(id);
-    }
+    return runBatch('checkOut', async (batch) => {
+      for (const id of ids) {
+        await performCheckOut(id, operationOptions, undefined, batch);
+      }
+    });
   };
 
-  const updateMany = async (
-    updates: Array<{ id: string | number; data: Partial<T> }>
+  const updateMany = (
+    updates: Array<{ id: string | number; data: Partial<T> }>,
+    operationOptions?: DeskOperationOptions
   ): Promise<void> => {
     debug(`${DebugPrefix} updateMany`, updates.length, 'items');
-    for (const { id, data } of updates) {
-      await update(id, data);
+    return runBatch('update', async (batch) => {
+      for (const { id, data } of updates) {
+        await performUpdate(id, data, operationOptions, undefined, batch);
+      }
+    });
+  };
+
+  /**
+   * Target side of a transfer, reached by the source desk through the desk internals.
+   * An id already checked in here follows this desk's `onDuplicate`, as for `checkIn()`.
+   */
+  const transferIn: DeskTransferChannel<T> = {
+    errorPolicy,
+
+    runMiddleware: (ctx, scope, operation) => runMiddleware(ctx, scope, operation),
+
+    createScope: () => new TransactionScope(createJournal(), false),
+
+    rollback: (scope) => rollbackJournal(scope.journal, true),
+
+    prepare: async (id, data, signal) => {
+      const existing = registryMap.get(id);
+      let plan: DeskTransferPlan<T> = { id, data, existing };
+
+      if (existing) {
+        if (onDuplicate === 'reject') {
+          debug(`${DebugPrefix} transfer rejected: '${id}' is already checked in`);
+          return undefined;
+        }
+        if (onDuplicate === 'rename') {
+          plan = { id: resolveId(id, 'rename'), data };
+        } else if (onDuplicate === 'merge') {
+          plan = { id, data: { ...existing.data, ...data }, existing, merged: true };
+        }
+      }
+
+      return (await runBeforeCheckIn(plan.id, plan.data, undefined, signal)) ? plan : undefined;
+    },
+
+    accepts: (plan) => registryMap.get(plan.id) === plan.existing,
+
+    // Synchronous: both registries change without yielding in between
+    commit: (plan, meta, position, scope) => {
+      const { id, data, existing, merged } = plan;
+      scope?.journal.record(id);
+      const item: CheckInItem<T> = {
+        id,
+        data,
+        version: (existing?.version ?? 0) + 1,
+        timestamp: merged ? existing!.timestamp : Date.now(),
+        meta: merged && (existing!.meta || meta) ? { ...existing!.meta, ...meta } : meta,
+      };
+      registryMap.set(id, item);
+      hydratedIds.delete(id);
+      owners.delete(id);
+      indexes.add(item);
+      order.insert(id, position);
+      syncList([id]);
+      sortCache.invalidate();
+    },
+
+    complete: async (transfer, plan, signal) => {
+      await completeTransfer(transfer, signal);
+      // The item that was there is gone or merged: listeners see its new data
+      if (plan.existing) {
+        emit('update', { id: plan.id, data: plan.data });
+      }
+    },
+  };
+
+  /**
+   * Transfer side effects on this desk (source or target)
+   */
+  const completeTransfer = async (transfer: DeskTransfer<T>, signal?: AbortSignal) => {
+    emit('transfer', {
+      id: transfer.id,
+      data: transfer.data,
+      from: transfer.id,
+      to: transfer.targetId,
+      sourceDesk: transfer.from.deskId,
+      targetDesk: transfer.to.deskId,
+    });
+    // One operation in DevTools, on each desk
+    devTools.emit({
+      type: 'transfer',
+      timestamp: Date.now(),
+      deskId,
+      childId: transfer.direction === 'out' ? transfer.id : transfer.targetId,
+      fromId: transfer.id,
+      toId: transfer.targetId,
+      data: transfer.data as Record<string, unknown>,
+      meta: { sourceDesk: transfer.from.deskId, targetDesk: transfer.to.deskId },
+      registrySize: registryMap.size,
+    });
+    devTools.updateRegistry(deskId, registryMap, resolvedContext as Record<string, unknown>);
+
+    // Plugins without an `onTransfer` hook see a regular check-out / check-in
+    for (const plugin of plugins.value) {
+      const startTime = performance.now();
+      let hook: string;
+      if (plugin.onTransfer) {
+        hook = 'onTransfer';
+        await runPluginHook(
+          plugin,
+          'onTransfer',
+          transfer.direction === 'out' ? transfer.id : transfer.targetId,
+          (hookSignal) => plugin.onTransfer!(transfer, desk, hookSignal),
+          signal,
+          false
+        );
+      } else if (transfer.direction === 'out' && plugin.onCheckOut) {
+        hook = 'onCheckOut';
+        await runPluginHook(
+          plugin,
+          'onCheckOut',
+          transfer.id,
+          (hookSignal) => plugin.onCheckOut!(transfer.id, desk, hookSignal),
+          signal,
+          false
+        );
+      } else if (transfer.direction === 'in' && plugin.onCheckIn) {
+        hook = 'onCheckIn';
+        await runPluginHook(
+          plugin,
+          'onCheckIn',
+          transfer.targetId,
+          (hookSignal) => plugin.onCheckIn!(transfer.targetId, transfer.data, desk, hookSignal),
+          signal,
+          false
+        );
+      } else {
+        continue;
+      }
+      const duration = performance.now() - startTime;
+
+      devTools.emit({
+        type: 'plugin-execute',
+        timestamp: Date.now(),
+        deskId,
+        childId: transfer.direction === 'out' ? transfer.id : transfer.targetId,
+        pluginName: plugin.name,
+        duration,
+        data: { hook },
+      });
+    }
+
+    // Lifecycle: after
+    if (transfer.direction === 'out' && options?.onCheckOut) {
+      await runDeskHook(
+        'onCheckOut',
+        (hookSignal) => options.onCheckOut!(transfer.id, desk, hookSignal),
+        signal,
+        false
+      );
+    } else if (transfer.direction === 'in' && options?.onCheckIn) {
+      await runDeskHook(
+        'onCheckIn',
+        (hookSignal) => options.onCheckIn!(transfer.targetId, transfer.data, desk, hookSignal),
+        signal,
+        false
+      );
+    }
+  };
+
+  /**
+   * Moves an item, inside the middleware of this desk then the target's.
+   * Changes are recorded in `scope` here and `targetScope` in the target, when given.
+   */
+  const applyTransfer = async (
+    target: DeskCore<T, any>,
+    targetChannel: DeskTransferChannel<T>,
+    ctx: DeskMiddlewareContext<T>,
+    as: string | number | undefined,
+    scope: TransactionScope | undefined,
+    targetScope: TransactionScope | undefined
+  ): Promise<boolean> => {
+    const id = ctx.id!;
+    const item = registryMap.get(id);
+    if (!item) return false;
+
+    // Lifecycle: before, on both desks. Nothing has moved yet if one cancels.
+    if (!(await runBeforeCheckOut(id, undefined, ctx.signal))) return false;
+
+    const meta = ctx.meta ? { ...item.meta, ...ctx.meta } : item.meta;
+    return targetChannel.runMiddleware(
+      {
+        operation: 'transfer',
+        id: as ?? id,
+        data: item.data,
+        meta,
+        position: ctx.position,
+        signal: ctx.signal,
+        source: desk,
+        target,
+      },
+      targetScope,
+      async (targetCtx) => {
+        const plan = await targetChannel.prepare(
+          targetCtx.id!,
+          targetCtx.data as T,
+          targetCtx.signal
+        );
+        if (!plan) {
+          debug(`${DebugPrefix} transferTo cancelled by target desk`, target.deskId);
+          return false;
+        }
+        // Renamed by the target's duplicate policy
+        const targetId = plan.id;
+
+        // The item, or the one it replaces, may have changed during async hooks
+        if (registryMap.get(id) !== item || !targetChannel.accepts(plan)) return false;
+
+        scope?.journal.record(id);
+        registryMap.delete(id);
+        hydratedIds.delete(id);
+        owners.delete(id);
+        indexes.remove(id);
+        order.remove(id);
+        syncList([id]);
+        sortCache.invalidate();
+        targetChannel.commit(plan, targetCtx.meta, targetCtx.position, targetScope);
+
+        const transfer = {
+          id,
+          targetId,
+          data: item.data,
+          meta: targetCtx.meta,
+          from: desk,
+          to: target,
+        };
+        await completeTransfer({ ...transfer, direction: 'out' }, ctx.signal);
+        await targetChannel.complete(
+          { ...transfer, data: plan.data, direction: 'in' },
+          plan,
+          targetCtx.signal
+        );
+
+        return true;
+      }
+    );
+  };
+
+  const transferTo = async (
+    target: DeskCore<T, any>,
+    id: string | number,
+    transferOptions?: DeskTransferOptions
+  ): Promise<boolean> => {
+    debug(`${DebugPrefix} transferTo`, { id, target: target.deskId, options: transferOptions });
+
+    const targetChannel = internalsOf(target)?.transferIn as DeskTransferChannel<T> | undefined;
+    if (!targetChannel || targetChannel === transferIn) {
+      debug(`${DebugPrefix} transferTo: target is not another desk`, target.deskId);
+      return false;
+    }
+
+    const { as, meta, signal, ...position } = transferOptions || {};
+
+    // Undone on both desks if either has the 'rollback' policy, so the item is never lost or duplicated
+    const rollsBack = errorPolicy === 'rollback' || targetChannel.errorPolicy === 'rollback';
+    const scope = rollsBack ? new TransactionScope(createJournal(), false) : undefined;
+    const targetScope = rollsBack ? targetChannel.createScope() : undefined;
+
+    try {
+      return await runMiddleware<boolean>(
+        { operation: 'transfer', id, meta, position, signal, source: desk, target },
+        scope,
+        (ctx) => applyTransfer(target, targetChannel, ctx, as, scope, targetScope)
+      );
+    } catch (error) {
+      if (scope && targetScope) {
+        targetChannel.rollback(targetScope);
+        rollbackJournal(scope.journal, true);
+        debug(`${DebugPrefix} transfer rolled back`, error);
+      }
+      throw error;
     }
   };
 
+  const transferMany = async (
+    target: DeskCore<T, any>,
+    ids: Array<string | number>,
+    transferOptions?: Omit<DeskTransferOptions, 'as'>
+  ): Promise<Array<string | number>> => {
+    debug(`${DebugPrefix} transferMany`, ids.length, 'items');
+
+    const { meta, signal, ...initialPosition } = transferOptions || {};
+    const hasPosition = Object.values(initialPosition).some((value) => value !== undefined);
+    let position: RegistryPosition = initialPosition;
+
+    const transferred: Array<string | number> = [];
+    for (const id of ids) {
+      if (await transferTo(target, id, { ...position, meta, signal })) {
+        transferred.push(id);
+        // Following items go right after the previous one
+        if (hasPosition) position = { after: id };
+      }
+    }
+
+    return transferred;
+  };
+
+  /**
+   * Transactions are serialized: each one sees the registry as the previous one left it.
+   * One started while another is open (from its callback or its hooks) can't wait for it:
+   * it runs right away, nested in the open one.
+   */
+  let transactionQueue: Promise<unknown> = Promise.resolve();
+  let openTransaction: TransactionScope | undefined;
+
+  const transaction = (
+    fn: (tx: DeskTransaction<T>) => void | Promise<void>,
+    transactionOptions?: DeskOperationOptions
+  ): Promise<boolean> => {
+    const txSignal = transactionOptions?.signal;
+    const parent = openTransaction;
+
+    const run = async (): Promise<boolean> => {
+      debug(`${DebugPrefix} transaction start`, parent ? '(nested)' : '');
+
+      const scope = new TransactionScope(createJournal());
+      if (!parent) openTransaction = scope;
+
+      const ensureNotCancelled = <R>(result: R): R => {
+        if (scope.cancelled) {
+          throw new TransactionCancelledError(scope.reason || 'unknown reason');
+        }
+        return result;
+      };
+
+      const tx: DeskTransaction<T> = {
+        checkIn: async (id, data, meta, checkInOptions) =>
+          ensureNotCancelled(
+            await performCheckIn(id, data, meta, { signal: txSignal, ...checkInOptions }, scope)
+          ),
+        checkOut: async (id, operationOptions) =>
+          ensureNotCancelled(
+            await performCheckOut(id, { signal: txSignal, ...operationOptions }, scope)
+          ),
+        update: async (id, data, operationOptions) =>
+          ensureNotCancelled(
+            (await performUpdate(id, data, { signal: txSignal, ...operationOptions }, scope))
+              .status === 'updated'
+          ),
+        switchItems: async (from, to, operationOptions) =>
+          ensureNotCancelled(
+            await performSwitchItems(from, to, { signal: txSignal, ...operationOptions }, scope)
+          ),
+        move: async (id, toIndex) => ensureNotCancelled(await performMove(id, toIndex, scope)),
+        reorder: async (ids) => ensureNotCancelled(await performReorder(ids, scope)),
+        get,
+        has,
+      };
+
+      /**
+       * Undo the transaction's own changes.
+       * Once committed, its events are out: 'rollback' tells listeners.
+       */
+      const rollback = (committed = false) => {
+        scope.discard();
+        rollbackJournal(scope.journal, committed);
+        debug(`${DebugPrefix} transaction rolled back`, scope.reason);
+      };
+
+      try {
+        try {
+          await fn(tx);
+          // Nested transactions it didn't wait for belong to it too
+          await scope.settle();
+        } catch (error) {
+          await scope.settle();
+          rollback();
+          if (error instanceof TransactionCancelledError) {
+            return false;
+          }
+          throw error;
+        }
+
+        // A cancellation swallowed by the callback still aborts the transaction
+        if (txSignal?.aborted) {
+          scope.cancel('transaction aborted');
+        }
+        if (scope.cancelled) {
+          rollback();
+          return false;
+        }
+
+        // Committed or rolled back with the open transaction
+        if (parent) {
+          parent.absorb(scope);
+          debug(`${DebugPrefix} nested transaction merged`);
+          return true;
+        }
+
+        debug(`${DebugPrefix} transaction committed`);
+        try {
+          await scope.flush();
+        } catch (error) {
+          // A plugin hook failed after commit
+          if (errorPolicy === 'rollback') {
+            rollback(true);
+          }
+          throw error;
+        }
+        return true;
+      } finally {
+        if (openTransaction === scope) openTransaction = undefined;
+      }
+    };
+
+    if (parent) {
+      return parent.join(run());
+    }
+
+    const result = transactionQueue.then(run);
+    transactionQueue = result.catch(() => undefined);
+    return result;
+  };
+
+  const attachChild = (child: DeskCore<any, any>) => {
+    if (childrenRef.value.some((existing) => isSameDesk(existing, child))) return;
+    childrenRef.value = [...childrenRef.value, child];
+  };
+
+  const detachChild = (child: DeskCore<any, any>) => {
+    childrenRef.value = childrenRef.value.filter((existing) => !isSameDesk(existing, child));
+  };
+
+  const setParent = (newParent: DeskCore<any, any> | null, newParentItemId?: string | number) => {
+    // Refuse cycles (linking under itself or one of its descendants)
+    let ancestor = newParent;
+    while (ancestor) {
+      if (isSameDesk(ancestor, desk)) {
+        throw new Error(
+          `${DebugPrefix} Cannot link desk '${deskId}' under '${newParent!.deskId}': this would create a cycle`
+        );
+      }
+      ancestor = ancestor.parent.value;
+    }
+
+    internalsOf(parentRef.value)?.detachChild(desk);
+
+    parentRef.value = newParent;
+    parentItemIdRef.value = newParent ? newParentItemId : undefined;
+
+    internalsOf(newParent)?.attachChild(desk);
+
+    devTools.updateMetadata(deskId, {
+      parentId: newParent?.deskId ?? null,
+      parentItemId: parentItemIdRef.value,
+    });
+
+    debug(`${DebugPrefix} ${deskId} parent set to`, newParent?.deskId ?? null);
+  };
+
+  const descendants = (): DeskCore<any, any>[] =>
+    childrenRef.value.flatMap((child) => [child, ...child.descendants()]);
+
+  const findInTree = (
+    predicate: (item: CheckInItem<any>, desk: DeskCore<any, any>) => boolean
+  ): DeskTreeMatch[] => {
+    const matches: DeskTreeMatch[] = [];
+
+    const walk = (node: DeskCore<any, any>, path: string[]) => {
+      node.registryList.value.forEach((item) => {
+        if (predicate(item, node)) {
+          matches.push({ desk: node, item, path });
+        }
+      });
+      node.children.value.forEach((child) => walk(child, [...path, child.deskId]));
+    };
+
+    walk(desk, [deskId]);
+    return matches;
+  };
+
   /**
    * Cleanup function to destroy the desk and free resources
    */
@@ -608,8 +2731,13 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
 
     // 1. Clear all registry items
     registryMap.clear();
+    hydratedIds.clear();
+    owners.clear();
+    indexes.clear();
+    order.clear();
     syncList();
     sortCache.invalidate();
+    observers.clear();
 
     // 2. Cleanup all plugins
     pluginCleanups.forEach((cleanup) => {
@@ -619,47 +2747,205 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
         debug(`${DebugPrefix} Plugin cleanup error:`, error);
       }
     });
-    pluginCleanups.length = 0;
+    pluginCleanups.clear();
 
     // 3. Remove all event listeners
     eventManager.removeAllListeners();
 
-    // 4. Unregister from DevTools
+    // 4. Unlink from the hierarchy (sub-desks become roots)
+    childrenRef.value.slice().forEach((child) => child.setParent(null));
+    if (parentRef.value) {
+      internalsOf(parentRef.value)?.detachChild(desk);
+      parentRef.value = null;
+    }
+
+    // 5. Unregister from DevTools
     devTools.unregisterDesk(deskId);
 
     debug(`${DebugPrefix} Desk destroyed: ${deskId}`);
   };
 
-  const desk: DeskCore<T, TContext> = {
+  /**
+   * Runs a plugin's `install` and attaches its methods and computed values
+   */
+  const installPlugin = (plugin: DeskPlugins<T>[number]) => {
+    debug(`${DebugPrefix} Installing plugin:`, plugin.name);
+
+    // 1. Install plugin
+    if (plugin.install) {
+      const startTime = performance.now();
+      const cleanup = plugin.install(desk as any);
+      const duration = performance.now() - startTime;
+
+      // Track plugin execution in DevTools
+      devTools.emit({
+        type: 'plugin-execute',
+        timestamp: Date.now(),
+        deskId,
+        pluginName: plugin.name,
+        duration,
+        data: { phase: 'install' },
+      });
+
+      if (cleanup) {
+        pluginCleanups.set(plugin.name, cleanup);
+      }
+    }
+
+    // 2. Add custom methods
+    if (plugin.methods) {
+      Object.entries(plugin.methods).forEach(([name, method]) => {
+        (desk as any)[name] = (...args: any[]) => method(...args);
+      });
+    }
+
+    // 3. Add computed properties
+    if (plugin.computed) {
+      Object.entries(plugin.computed).forEach(([name, getter]) => {
+        Object.defineProperty(desk, name, {
+          get: () => getter(),
+          enumerable: true,
+          configurable: true,
+        });
+      });
+    }
+  };
+
+  const use = (plugin: DeskPlugins<T>[number]): boolean => {
+    if (pluginByName(plugin.name)) {
+      debug(`${DebugPrefix} use skipped: plugin already installed`, plugin.name);
+      return false;
+    }
+
+    // Throws before anything is installed if the plugin doesn't fit
+    installedPlugins.value = pluginGraph.resolve([...installedPlugins.value, plugin]);
+    installPlugin(plugin);
+    devTools.updateMetadata(deskId, { plugins: plugins.value.map((p) => p.name) });
+
+    return true;
+  };
+
+  const unuse = (name: string): boolean => {
+    const plugin = pluginByName(name);
+    if (!plugin) {
+      debug(`${DebugPrefix} unuse skipped: plugin not installed`, name);
+      return false;
+    }
+
+    const dependent = plugins.value.find((p) => p.requires?.includes(name));
+    if (dependent) {
+      throw new PluginDependencyError(
+        `Cannot remove plugin '${name}': required by '${dependent.name}'`
+      );
+    }
+
+    debug(`${DebugPrefix} Uninstalling plugin:`, name);
+
+    // 1. Run the cleanup returned by install
+    const cleanup = pluginCleanups.get(name);
+    pluginCleanups.delete(name);
+    if (cleanup) {
+      const startTime = performance.now();
+      try {
+        cleanup();
+      } catch (error) {
+        debug(`${DebugPrefix} Plugin cleanup error:`, error);
+      }
+
+      devTools.emit({
+        type: 'plugin-execute',
+        timestamp: Date.now(),
+        deskId,
+        pluginName: name,
+        duration: performance.now() - startTime,
+        data: { phase: 'uninstall' },
+      });
+    }
+
+    // 2. Detach methods and computed properties
+    [...Object.keys(plugin.methods || {}), ...Object.keys(plugin.computed || {})].forEach(
+      (member) => {
+        delete (desk as any)[member];
+      }
+    );
+
+    installedPlugins.value = installedPlugins.value.filter((p) => p !== plugin);
+    devTools.updateMetadata(deskId, { plugins: plugins.value.map((p) => p.name) });
+
+    return true;
+  };
+
+  // Custom events (TEvents) only type the public surface
+  const desk: DeskCore<T, TContext, any> = {
+    deskId,
+    onDuplicate,
+    orderMode,
     devTools,
     registryMap,
     registryList,
+    ordered,
     sortedRegistry,
     size,
+    keys,
     plugins,
     pluginByName,
+    use,
+    unuse,
     setContext,
     getContext,
+    parent,
+    parentItemId,
+    children,
+    setParent,
+    descendants,
+    findInTree,
     checkIn,
     checkOut,
+    resolveId,
+    isHydrated,
     get,
+    itemRef,
+    findBy,
+    findOneBy,
     getAll,
+    view,
+    groupBy,
+    aggregate,
     update,
     switchItems,
+    move,
+    reorder,
+    refreshOrder,
+    indexOf,
     has,
     clear,
+    snapshot,
+    restore,
     checkInMany,
     checkOutMany,
     updateMany,
+    transferTo,
+    transferMany,
+    transaction,
     on,
+    once,
     off,
-    emit,
+    emit: emit as DeskCore<T, TContext>['emit'],
     destroy,
   };
 
   // Add deskId as internal property for plugin access
   (desk as any).__deskId = deskId;
 
+  // Internal hierarchy channel between desks
+  deskInternals.set(registryMap, {
+    attachChild,
+    detachChild,
+    receiveBubbled,
+    flushEvents,
+    transferIn,
+  });
+
   // Resolve context (function or direct value)
   if (options?.context) {
     resolvedContext =
@@ -671,55 +2957,47 @@ export const createDeskCore = <T = any, TContext extends Record<string, any> = {
     deskId,
     debug: options?.debug,
     createdAt: new Date().toLocaleString(),
-    plugins: options?.plugins?.map((p) => p.name) || [],
+    plugins: plugins.value.map((p) => p.name),
+    indexes: indexes.keys,
     label: options?.deskId || 'Default Desk',
     context: resolvedContext,
+    parentId: options?.parent?.deskId ?? null,
   });
 
-  if (options?.plugins) {
-    options.plugins.forEach((plugin) => {
-      debug(`${DebugPrefix} Installing plugin:`, plugin.name);
-
-      // 1. Install plugin
-      if (plugin.install) {
-        const startTime = performance.now();
-        const cleanup = plugin.install(desk as any);
-        const duration = performance.now() - startTime;
-
-        // Track plugin execution in DevTools
-        devTools.emit({
-          type: 'plugin-execute',
-          timestamp: Date.now(),
-          deskId,
-          pluginName: plugin.name,
-          duration,
-          data: { phase: 'install' },
-        });
-
-        if (cleanup) {
-          pluginCleanups.push(cleanup);
-        }
-      }
+  if (options?.parent) {
+    setParent(options.parent, options.parentItemId);
+  }
 
-      // 2. Add custom methods
-      if (plugin.methods) {
-        Object.entries(plugin.methods).forEach(([name, method]) => {
-          (desk as any)[name] = (...args: any[]) => method(...args);
-        });
-      }
+  plugins.value.forEach(installPlugin);
 
-      // 3. Add computed properties
-      if (plugin.computed) {
-        Object.entries(plugin.computed).forEach(([name, getter]) => {
-          Object.defineProperty(desk, name, {
-            get: () => getter(),
-            enumerable: true,
-            configurable: true,
-          });
-        });
-      }
-    });
+  // After plugins and context: they receive their part of the state
+  if (options?.initialState) {
+    restore(options.initialState);
+    options.initialState.items.forEach(({ id }) => hydratedIds.add(id));
   }
 
-  return desk;
+  // Plugin methods and computed values were attached above
+  return desk as DeskWithPlugins<T, TPlugins, TContext, TEvents>;
 };
+
+/**
+ * `createDeskCore()` with its type arguments given first. TypeScript doesn't infer
+ * the remaining type arguments of a call given some, so `createDeskCore<T>({ plugins })`
+ * loses the plugins' members: the returned function infers them instead.
+ *
+ * @example
+ * ```ts
+ * const desk = createDeskCoreFor<Tab>()({ plugins: [createActiveItemPlugin<Tab>()] });
+ * desk.setActive('home');
+ * ```
+ */
+export const createDeskCoreFor =
+  <
+    T = any,
+    TContext extends Record<string, any> = {},
+    TEvents extends Record<string, any> = {},
+  >() =>
+  <TPlugins extends DeskPlugins<T> = DeskPlugins<T>>(
+    options?: DeskCoreOptions<T> & { plugins?: TPlugins }
+  ) =>
+    createDeskCore<T, TContext, TEvents, TPlugins>(options);
@@ -0,0 +1,124 @@
+/**
+ * App-level desks, defined outside component setup.
+ * Usable from modules, stores and router guards, and looked up by id from components.
+ */
+
+import { effectScope, type App, type InjectionKey } from 'vue';
+import { createDeskCore, type DeskCoreOptions, type DeskPlugins } from './desk-core';
+import { withContext, type ProvidedDesk } from './desk-injection';
+import { NoOp, Debug } from '../utils';
+
+/**
+ * Desk created with `defineDesk()`
+ */
+export type DefinedDesk<
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+  TPlugins extends DeskPlugins<T> = DeskPlugins<T>,
+> = ProvidedDesk<T, TContext, TEvents, TPlugins> &
+  TContext & {
+    /** Key the desk is provided with by `app.use()` (it is also provided under its id) */
+    readonly injectionKey: InjectionKey<ProvidedDesk<T, TContext, TEvents, TPlugins>>;
+    /** Provide the desk to the whole app: `app.use(desk)` */
+    install: (app: App) => void;
+    /** Destroy the desk and stop its effects. Its id can then be defined again. */
+    dispose: () => void;
+  };
+
+const DebugPrefix = '[defineDesk]';
+
+/**
+ * Desks defined with `defineDesk()`, by id
+ */
+const definedDesks = new Map<string, DefinedDesk>();
+
+/**
+ * Desk defined with `defineDesk()` under `id`, if any
+ */
+export const getDefinedDesk = (id: string): DefinedDesk | undefined => definedDesks.get(id);
+
+/**
+ * Ids of the desks defined with `defineDesk()`
+ */
+export const getDefinedDeskIds = (): string[] => [...definedDesks.keys()];
+
+/**
+ * Defines an app-level desk.
+ *
+ * Unlike `useCheckIn().createDesk()`, it doesn't need a component: the desk lives in its own
+ * effect scope until `dispose()` is called. Components check into it with its id
+ * (`checkIn('cart')`), or with `injectionKey` once provided with `app.use()`.
+ * Defining an id that is already defined disposes the previous desk (hot reload).
+ *
+ * @param id - Desk id, used for lookups and as DevTools id
+ * @param options - Desk options, with optional context and plugins
+ *
+ * @example
+ * ```ts
+ * // stores/cart.ts
+ * export const cartDesk = defineDesk<CartItem>('cart', {
+ *   context: { open: ref(false) },
+ * });
+ *
+ * // main.ts
+ * createApp(App).use(cartDesk).mount('#app');
+ *
+ * // CartLine.vue
+ * const { checkIn } = useCheckIn<CartItem>();
+ * checkIn('cart', { autoCheckIn: true, id: props.sku, data: () => props.item });
+ * ```
+ */
+export const defineDesk = <
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+  TPlugins extends DeskPlugins<T> = DeskPlugins<T>,
+>(
+  id: string,
+  options?: DeskCoreOptions<T> & { context?: TContext; plugins?: TPlugins }
+): DefinedDesk<T, TContext, TEvents, TPlugins> => {
+  const debug = options?.debug ? Debug : NoOp;
+
+  const previous = definedDesks.get(id);
+  if (previous) {
+    debug(`${DebugPrefix} Desk already defined, disposing previous one: ${id}`);
+    previous.dispose();
+  }
+
+  // Detached: the desk must outlive the component or effect that happens to define it
+  const scope = effectScope(true);
+  const deskCore = scope.run(() =>
+    createDeskCore<T, TContext, TEvents>({ ...options, deskId: options?.deskId || id })
+  )!;
+
+  const injectionKey = Symbol(id) as InjectionKey<ProvidedDesk<T, TContext, TEvents, TPlugins>>;
+  const desk = withContext<T, TContext, TEvents>(deskCore, options?.context) as DefinedDesk<
+    T,
+    TContext,
+    TEvents,
+    TPlugins
+  >;
+
+  Object.assign(desk, {
+    injectionKey,
+    install: (app: App) => {
+      app.provide(injectionKey, desk);
+      app.provide(id, desk);
+      debug(`${DebugPrefix} Desk provided to app: ${id}`);
+    },
+    dispose: () => {
+      if (definedDesks.get(id) === (desk as unknown)) {
+        definedDesks.delete(id);
+      }
+      deskCore.destroy();
+      scope.stop();
+      debug(`${DebugPrefix} Desk disposed: ${id}`);
+    },
+  });
+
+  definedDesks.set(id, desk as unknown as DefinedDesk);
+  debug(`${DebugPrefix} Desk defined: ${id}`);
+
+  return desk;
+};
@@ -0,0 +1,71 @@
+/**
+ * Desk hierarchy tracking.
+ * Links a desk created inside a component to the desk that component is checked into,
+ * whatever the order of `createDesk()` and `checkIn()` calls in its setup.
+ */
+
+import type { DeskCore } from './desk-core';
+
+interface CheckedInEntry {
+  desk: DeskCore<any, any, any>;
+  id: string | number;
+}
+
+/**
+ * Component instance -> desk it checked into (and the item id it holds there)
+ */
+const checkedInByInstance = new WeakMap<object, CheckedInEntry>();
+
+/**
+ * Component instance -> desks it created that should be linked automatically
+ */
+const createdByInstance = new WeakMap<object, Set<DeskCore<any, any, any>>>();
+
+/**
+ * Records that a component created a desk.
+ * Links it right away if the component is already checked into a desk.
+ */
+export const trackCreatedDesk = (instance: object | null, desk: DeskCore<any, any, any>): void => {
+  if (!instance) return;
+
+  let desks = createdByInstance.get(instance);
+  if (!desks) {
+    desks = new Set();
+    createdByInstance.set(instance, desks);
+  }
+  desks.add(desk);
+
+  const checkedIn = checkedInByInstance.get(instance);
+  if (checkedIn && checkedIn.desk !== desk) {
+    desk.setParent(checkedIn.desk, checkedIn.id);
+  }
+};
+
+/**
+ * Records that a component checked into a desk.
+ * Links the desks this component already created as sub-desks.
+ */
+export const trackCheckedIn = (
+  instance: object | null,
+  desk: DeskCore<any, any, any>,
+  id: string | number
+): void => {
+  if (!instance || checkedInByInstance.has(instance)) return;
+
+  checkedInByInstance.set(instance, { desk, id });
+
+  createdByInstance.get(instance)?.forEach((created) => {
+    if (created !== desk && !created.parent.value) {
+      created.setParent(desk, id);
+    }
+  });
+};
+
+/**
+ * Forgets a component (on unmount)
+ */
+export const untrackInstance = (instance: object | null): void => {
+  if (!instance) return;
+  checkedInByInstance.delete(instance);
+  createdByInstance.delete(instance);
+};
@@ -0,0 +1,100 @@
+/**
+ * Id generation for checked-in items.
+ * Memoized ids stay stable for a component instance, or for a custom id across remounts.
+ */
+
+import * as Vue from 'vue';
+import { isDev } from '../utils';
+
+// WeakMap for generating stable IDs based on component instance
+const instanceIdMap = new WeakMap<object, string>();
+// Map for custom IDs provided by user
+const customIdMap = new Map<string, string>();
+let instanceCounter = 0;
+
+/**
+ * Generates a cryptographically secure unique ID.
+ * Uses crypto.randomUUID if available, otherwise crypto.getRandomValues.
+ * Falls back to timestamp + Math.random for legacy environments.
+ */
+export const generateId = (prefix = 'item'): string => {
+  // Try crypto.randomUUID if available (modern browser + Node 19+)
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return `${prefix}-${crypto.randomUUID()}`;
+  }
+
+  // Otherwise use crypto.getRandomValues (nearly universal)
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    const array = new Uint8Array(16);
+    crypto.getRandomValues(array);
+    const id = Array.from(array, (b) => b.toString(16).padStart(2, '0')).join('');
+    return `${prefix}-${id}`;
+  }
+
+  // Ultimate fallback for very old environments
+  if (isDev()) {
+    console.warn(
+      '[useCheckIn] crypto API not available, using Math.random fallback. ' +
+        'Consider upgrading to a modern environment.'
+    );
+  }
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 15);
+  return `${prefix}-${timestamp}-${random}`;
+};
+
+/**
+ * Generates a memoized ID for a component.
+ * Memoizes IDs based on instance or custom ID to ensure stability across remounts.
+ */
+export const memoizedId = (
+  instanceOrId: object | string | number | null | undefined,
+  prefix = 'item'
+): string => {
+  // Case 1: It's a string or number = custom ID provided by user
+  if (typeof instanceOrId === 'string' || typeof instanceOrId === 'number') {
+    const key = `${prefix}-${instanceOrId}`;
+    let id = customIdMap.get(key);
+    if (!id) {
+      id = String(instanceOrId);
+      customIdMap.set(key, id);
+    }
+    return id;
+  }
+
+  // Case 2: It's an object = Vue instance (getCurrentInstance())
+  if (instanceOrId && typeof instanceOrId === 'object') {
+    let id = instanceIdMap.get(instanceOrId);
+    if (!id) {
+      id = `${prefix}-${++instanceCounter}`;
+      instanceIdMap.set(instanceOrId, id);
+    }
+    return id;
+  }
+
+  // Case 3: null/undefined = cryptographically secure generation with warning
+  return generateId(prefix);
+};
+
+// Added in Vue 3.5
+const useId = (Vue as { useId?: () => string | undefined }).useId;
+
+/**
+ * Id of a component instance, the same on the server and the client with Vue 3.5+.
+ * Falls back to `memoizedId()` on older versions, where it differs between both renders.
+ */
+export const componentId = (instance: object | null | undefined): string =>
+  (instance && useId?.()) || memoizedId(instance);
+
+/**
+ * Clears the memoization cache for custom IDs.
+ * Useful for cleanup after major route changes or in long-running SPAs.
+ * Note: instanceIdMap (WeakMap) is auto-cleaned by garbage collection.
+ */
+export const clearIdCache = (resetCounter = false) => {
+  customIdMap.clear();
+
+  if (resetCounter) {
+    instanceCounter = 0;
+  }
+};
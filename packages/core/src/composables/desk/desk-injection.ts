@@ -5,20 +5,53 @@
 
 import { provide, type InjectionKey } from 'vue';
 import type { DeskCore } from './desk-core';
+import type { CheckInPluginsEvents, CheckInPluginsExports } from '../types';
 import { NoOp, Debug } from '../utils';
 
-export interface DeskWithContext<T = any, TContext extends Record<string, any> = {}>
-  extends DeskCore<T> {
+export interface DeskWithContext<
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+> extends DeskCore<T, {}, TEvents> {
   context?: TContext;
 }
 
-export interface ProvideDeskResult<T = any, TContext extends Record<string, any> = {}> {
-  desk: DeskWithContext<T, TContext>;
-  injectionKey: InjectionKey<DeskWithContext<T, TContext>>;
+/**
+ * Desk created with `createDesk()`, typed with its plugins' methods, computed values and events
+ */
+export type ProvidedDesk<
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+  TPlugins extends readonly unknown[] = [],
+> = DeskWithContext<T, TContext, TEvents & CheckInPluginsEvents<TPlugins>> &
+  CheckInPluginsExports<TPlugins>;
+
+export interface ProvideDeskResult<
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+> {
+  desk: DeskWithContext<T, TContext, TEvents>;
+  injectionKey: InjectionKey<DeskWithContext<T, TContext, TEvents>>;
 }
 
 const DebugPrefix = '[DeskInjection]';
 
+/**
+ * Context on top of the desk: the desk stays the prototype, so members attached later
+ * (plugins installed with `use()`) and plugin getters stay live
+ */
+export const withContext = <
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+>(
+  desk: DeskCore<T, any, TEvents>,
+  context?: TContext
+): DeskWithContext<T, TContext, TEvents> =>
+  Object.assign(Object.create(desk), context || {}) as DeskWithContext<T, TContext, TEvents>;
+
 /**
  * Provides a desk to child components via dependency injection.
  * Simplified: uses Symbol-based keys only, no string fallback.
@@ -42,19 +75,19 @@ const DebugPrefix = '[DeskInjection]';
  * });
  * ```
  */
-export const provideDesk = <T = any, TContext extends Record<string, any> = {}>(
-  injectionKey: InjectionKey<DeskWithContext<T, TContext>>,
-  desk: DeskCore<T>,
+export const provideDesk = <
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+>(
+  injectionKey: InjectionKey<DeskWithContext<T, TContext, TEvents>>,
+  desk: DeskCore<T, any, TEvents>,
   context?: TContext,
   debug = false
-): ProvideDeskResult<T, TContext> => {
+): ProvideDeskResult<T, TContext, TEvents> => {
   const logger = debug ? Debug : NoOp;
 
-  // Merge desk with context
-  const fullDesk = {
-    ...desk,
-    ...(context || {}),
-  } as DeskWithContext<T, TContext>;
+  const fullDesk = withContext<T, TContext, TEvents>(desk, context);
 
   // Single provide with Symbol key
   provide(injectionKey, fullDesk);
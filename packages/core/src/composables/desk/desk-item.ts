@@ -0,0 +1,64 @@
+/**
+ * Fine-grained access to a single desk item.
+ * Reading an item through `useDeskItem()` only re-renders when that item changes.
+ */
+
+import {
+  customRef,
+  effectScope,
+  getCurrentScope,
+  isRef,
+  onScopeDispose,
+  shallowRef,
+  type EffectScope,
+  type Ref,
+} from 'vue';
+import type { CheckInItem, DeskCore } from './desk-core';
+
+/**
+ * Reactive item of a desk, undefined while it isn't checked in.
+ *
+ * Unlike `desk.get()`, which depends on the whole registry, the returned ref only
+ * triggers when this item is checked in, updated, switched or checked out.
+ * `id` may be a ref or a getter: the ref then follows the current id.
+ *
+ * @example
+ * ```ts
+ * const { desk } = checkIn(TABS_DESK_KEY);
+ * const tab = useDeskItem(desk, () => props.tabId);
+ * const label = computed(() => tab.value?.data.label);
+ * ```
+ */
+export const useDeskItem = <T = any>(
+  desk: DeskCore<T, any, any> | null | undefined,
+  id: string | number | Ref<string | number> | (() => string | number)
+): Readonly<Ref<CheckInItem<T> | undefined>> => {
+  if (!desk) {
+    return shallowRef(undefined);
+  }
+  if (!isRef(id) && typeof id !== 'function') {
+    return desk.itemRef(id);
+  }
+
+  const currentId = () => (isRef(id) ? id.value : id());
+
+  // The item ref of the current id, held in its own scope: released when the id changes
+  let held: { id: string | number; ref: Ref<CheckInItem<T> | undefined>; scope: EffectScope };
+  const itemRef = (itemId: string | number) => {
+    if (held?.id !== itemId) {
+      held?.scope.stop();
+      const scope = effectScope(true);
+      held = { id: itemId, ref: scope.run(() => desk.itemRef(itemId))!, scope };
+    }
+    return held.ref;
+  };
+  if (getCurrentScope()) {
+    onScopeDispose(() => held?.scope.stop());
+  }
+
+  // Not a computed: an item updated in place keeps its identity and would not trigger
+  return customRef(() => ({
+    get: () => itemRef(currentId()).value,
+    set: () => {},
+  }));
+};
@@ -0,0 +1,146 @@
+/**
+ * Desk lookup from components.
+ * Resolves injection keys and desk ids, and explains what went wrong when no desk is found.
+ */
+
+import { inject, hasInjectionContext, getCurrentInstance, type InjectionKey } from 'vue';
+import type { DeskCore } from './desk-core';
+import type { ProvidedDesk } from './desk-injection';
+import { getDefinedDesk, getDefinedDeskIds } from './desk-define';
+
+type DeskKey = InjectionKey<any> | string;
+
+/**
+ * Thrown when a required desk can't be found: `checkIn()` with `required: true`
+ * (or in strict mode), and `useDeskOrThrow()`
+ */
+export class DeskNotFoundError extends Error {
+  constructor(
+    /** Injection key or desk id that was looked up */
+    public key: string,
+    /** Name of the component looking it up, if any */
+    public component: string | undefined,
+    /** Desks provided above the component and defined desks, nearest first */
+    public available: string[]
+  ) {
+    super(
+      `[useCheckIn] No desk found for ${key}${component ? ` in <${component}>` : ''}. ` +
+        (available.length > 0
+          ? `Desks available here: ${available.join(', ')}.`
+          : 'No desk is provided above this component.') +
+        ' Check that a parent calls createDesk() with this key, or that the desk is defined with defineDesk().'
+    );
+    this.name = 'DeskNotFoundError';
+  }
+}
+
+let strictMode = false;
+
+/**
+ * Strict mode: every `checkIn()` behaves as `required: true` unless it sets `required: false`.
+ * Meant for development, to catch wiring mistakes as soon as a component sets up.
+ *
+ * @example
+ * ```ts
+ * setStrictMode(import.meta.env.DEV);
+ * ```
+ */
+export const setStrictMode = (enabled = true): void => {
+  strictMode = enabled;
+};
+
+export const isStrictMode = (): boolean => strictMode;
+
+const isDesk = (value: unknown): value is DeskCore<any, any, any> =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as DeskCore).registryMap instanceof Map &&
+  typeof (value as DeskCore).checkIn === 'function';
+
+const describeKey = (key: PropertyKey | null | undefined) =>
+  typeof key === 'string' || typeof key === 'number' ? `'${key}'` : String(key);
+
+const componentName = () => {
+  const type = getCurrentInstance()?.type as
+    { name?: string; __name?: string; __file?: string } | undefined;
+  if (!type) return undefined;
+  return (
+    type.name ||
+    type.__name ||
+    type.__file
+      ?.split(/[\\/]/)
+      .pop()
+      ?.replace(/\.vue$/, '') ||
+    'Anonymous'
+  );
+};
+
+/**
+ * Desks provided above the current component, nearest first, then defined desks
+ */
+const availableDesks = (): string[] => {
+  const available: string[] = [];
+  const seen = new Set<PropertyKey>();
+
+  // Each component's provides inherit from its parent's: walk up the prototype chain
+  const instance = getCurrentInstance() as { provides?: object } | null;
+  let provides: object | null = instance?.provides ?? null;
+  while (provides && provides !== Object.prototype) {
+    Reflect.ownKeys(provides).forEach((key) => {
+      const value = (provides as Record<PropertyKey, unknown>)[key];
+      if (seen.has(key) || !isDesk(value)) return;
+      seen.add(key);
+      available.push(`${describeKey(key)} (desk '${value.deskId}')`);
+    });
+    provides = Object.getPrototypeOf(provides);
+  }
+
+  getDefinedDeskIds().forEach((id) => {
+    if (!seen.has(id)) available.push(`'${id}' (defined)`);
+  });
+
+  return available;
+};
+
+/**
+ * Error describing a failed lookup of `key` from the current component
+ */
+export const deskNotFound = (key: DeskKey | null | undefined): DeskNotFoundError =>
+  new DeskNotFoundError(describeKey(key), componentName(), availableDesks());
+
+/**
+ * Desk provided under `key`. Ids fall back to the desk defined with `defineDesk()`.
+ */
+export const lookupDesk = <TDesk = DeskCore<any, any, any>>(key: DeskKey): TDesk | null => {
+  if (typeof key === 'string') {
+    // Provided under this id (`app.use()` of a defined desk), else the desk defined with it
+    const provided = hasInjectionContext() ? inject<TDesk | null>(key, null) : null;
+    return provided || ((getDefinedDesk(key) as TDesk | undefined) ?? null);
+  }
+  return inject(key) ?? null;
+};
+
+/**
+ * Injects a desk, throwing a `DeskNotFoundError` that lists the desks available
+ * when none is provided under `key`. Accepts desk ids like `checkIn()`.
+ *
+ * @example
+ * ```ts
+ * // Throws right away if the component is rendered outside of <Tabs>
+ * const desk = useDeskOrThrow(TABS_DESK_KEY);
+ * ```
+ */
+export const useDeskOrThrow = <
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+  TPlugins extends readonly unknown[] = [],
+>(
+  key: InjectionKey<ProvidedDesk<T, TContext, TEvents, TPlugins>> | string
+): ProvidedDesk<T, TContext, TEvents, TPlugins> & TContext => {
+  const desk = lookupDesk<ProvidedDesk<T, TContext, TEvents, TPlugins> & TContext>(key);
+  if (!desk) {
+    throw deskNotFound(key);
+  }
+  return desk;
+};
@@ -0,0 +1,167 @@
+/**
+ * Check-in of one child into several desks.
+ * One handle checks in, updates and checks out of all of them together.
+ */
+
+import type { InjectionKey } from 'vue';
+import type { DeskCore } from './desk-core';
+import { checkInToDesk, type CheckInOptions, type CheckInResult } from './desk-child';
+import { NoOp, Debug, isDev } from '../utils';
+
+type DeskKeyLike<T, TContext extends Record<string, any>> =
+  (DeskCore<T> & TContext) | InjectionKey<DeskCore<T> & TContext> | string | null | undefined;
+
+/**
+ * One of the desks to check into with `checkInMany()`
+ */
+export interface DeskCheckInEntry<T = any, TContext extends Record<string, any> = {}> {
+  /** Desk, injection key or desk id, as for `checkIn()` */
+  key: DeskKeyLike<any, any>;
+  /** Options for this desk, merged over the shared ones */
+  options?: CheckInOptions<any, any>;
+  /**
+   * Data checked into this desk, from the shared data.
+   * Mapped data can't be written back: `twoWay` is ignored for this desk.
+   */
+  map?: (data: T, desk: DeskCore<any> & TContext) => any;
+}
+
+export interface MultiCheckInResult<T = any, TContext extends Record<string, any> = {}> {
+  /** Desks, in the order of the entries (null when not found) */
+  desks: Array<(DeskCore<T> & TContext) | null>;
+  /** Check-in of each desk, in the order of the entries */
+  results: CheckInResult<T, TContext>[];
+  /**
+   * Check into every desk found. If one check-in fails, the others are checked out.
+   * Done on mount with `autoCheckIn`.
+   */
+  checkIn: () => Promise<boolean>;
+  checkOut: () => void;
+  /** Update every desk, each with its mapped data */
+  updateSelf: (newData?: T) => Promise<void>;
+}
+
+const DebugPrefix = '[useCheckIn:desk-multi]';
+
+/**
+ * `data` option for a desk with a mapper: the shared data (value, sync or async function)
+ * passed through `map`
+ */
+const mapData = <T>(
+  data: CheckInOptions<T, any>['data'],
+  map: NonNullable<DeskCheckInEntry<T, any>['map']>
+) => {
+  if (data === undefined) return undefined;
+  return (desk: DeskCore<any>, id: string | number) => {
+    const value =
+      typeof data === 'function'
+        ? (data as (desk: DeskCore<any>, id: string | number) => T | Promise<T>)(desk, id)
+        : data;
+    return value instanceof Promise
+      ? value.then((resolved) => map(resolved, desk))
+      : map(value, desk);
+  };
+};
+
+/**
+ * Checks in to several desks (child component registers itself in each of them).
+ *
+ * Every desk gets the shared options merged with its own. With `autoCheckIn`, the
+ * check-ins are coordinated: they run together on mount, and if one fails the others
+ * are checked out. Desks with a `watchCondition` check in on their own.
+ *
+ * @param entries - Desks to check into, with their options and data mappers
+ * @param sharedOptions - Options for every desk
+ *
+ * @example
+ * ```ts
+ * const { desks } = checkInToDesks<Header>(
+ *   [
+ *     { key: AvailableDeskKey },
+ *     { key: EncodedDeskKey, map: (header) => ({ name: header.name, codec: 'utf-8' }) },
+ *   ],
+ *   { autoCheckIn: true, id: props.id, data: () => props.header, watchData: true }
+ * );
+ * ```
+ */
+export const checkInToDesks = <T = any, TContext extends Record<string, any> = {}>(
+  entries: DeskCheckInEntry<T, TContext>[],
+  sharedOptions?: CheckInOptions<T, TContext>
+): MultiCheckInResult<T, TContext> => {
+  const debug = sharedOptions?.debug ? Debug : NoOp;
+
+  const options = entries.map((entry) => {
+    const merged: CheckInOptions<any, any> = { ...sharedOptions, ...entry.options };
+    if (entry.map) {
+      merged.data = mapData(merged.data, entry.map);
+      if (merged.twoWay) {
+        merged.twoWay = false;
+        if (isDev()) {
+          console.warn(
+            `[useCheckIn] \`twoWay\` is ignored for a desk with \`map\`: its mapped data can't be written back into the shared data.`
+          );
+        }
+      }
+    }
+    return merged;
+  });
+
+  // Coordinated check-ins are started here rather than by each desk
+  const coordinated = options.map((merged) => !!merged.autoCheckIn && !merged.watchCondition);
+
+  const results = entries.map((entry, index) =>
+    checkInToDesk<T, TContext>(
+      entry.key as DeskKeyLike<T, TContext>,
+      {
+        ...options[index],
+        autoCheckIn: coordinated[index] ? false : options[index].autoCheckIn,
+      } as CheckInOptions<T, TContext>
+    )
+  );
+
+  const checkInAll = async (selected: CheckInResult<T, TContext>[]): Promise<boolean> => {
+    const found = selected.filter((result) => result.desk);
+    const succeeded = await Promise.all(found.map((result) => result.checkIn()));
+
+    if (succeeded.every(Boolean)) {
+      debug(`${DebugPrefix} Checked in to ${found.length} desk(s)`);
+      return true;
+    }
+
+    // All or nothing
+    found.forEach((result, index) => {
+      if (succeeded[index]) result.checkOut();
+    });
+    debug(`${DebugPrefix} Check-in failed at one desk - checked out of the others`);
+    return false;
+  };
+
+  const performCheckIn = () => checkInAll(results);
+
+  const performCheckOut = () => {
+    results.forEach((result) => result.checkOut());
+  };
+
+  const updateSelf = async (newData?: T) => {
+    await Promise.all(
+      results.map((result, index) => {
+        const map = entries[index].map;
+        return result.updateSelf(
+          newData !== undefined && map && result.desk ? map(newData, result.desk) : newData
+        );
+      })
+    );
+  };
+
+  if (coordinated.some(Boolean)) {
+    checkInAll(results.filter((_, index) => coordinated[index]));
+  }
+
+  return {
+    desks: results.map((result) => result.desk),
+    results,
+    checkIn: performCheckIn,
+    checkOut: performCheckOut,
+    updateSelf,
+  };
+};
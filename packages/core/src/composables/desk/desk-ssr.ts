@@ -0,0 +1,79 @@
+/**
+ * Server-side rendering support.
+ * Desks created during SSR are serialized into the payload and hydrated on the client,
+ * so the first client render starts from the server's registries.
+ */
+
+import type { App, InjectionKey } from 'vue';
+import type { DeskCore } from './desk-core';
+import type { DeskSnapshot } from '../helpers/registry-snapshot';
+
+/**
+ * Serialized desks, by desk id. Several desks may share an id (a component rendered
+ * more than once): they are matched by creation order, the same on server and client.
+ */
+export type DeskSSRState = Record<string, DeskSnapshot[]>;
+
+/**
+ * App plugin collecting desks during SSR and handing their state back on the client
+ */
+export interface DeskSSR {
+  install: (app: App) => void;
+  /** State of the desks created during the render, to put in the SSR payload */
+  serialize: () => DeskSSRState;
+  /** Record a desk created during the render (done by `createDesk()`) */
+  register: (desk: DeskCore<any, any, any>) => void;
+  unregister: (desk: DeskCore<any, any, any>) => void;
+  /** Serialized state for the next desk created with this id, if any (done by `createDesk()`) */
+  take: (deskId: string) => DeskSnapshot | undefined;
+}
+
+export const DESK_SSR_KEY: InjectionKey<DeskSSR> = Symbol('DeskSSR');
+
+/**
+ * Creates the SSR plugin of an app. On the server, create it without state and put
+ * `serialize()` in the payload once rendered. On the client, create it with that state:
+ * desks created with `createDesk()` start from it, and children checking in with
+ * the same ids adopt their server items instead of adding them again.
+ *
+ * With Nuxt, the `vue-airport/nuxt` module does this.
+ *
+ * @example
+ * ```ts
+ * // Server
+ * const ssr = createDeskSSR();
+ * app.use(ssr);
+ * const html = await renderToString(app);
+ * const state = JSON.stringify(ssr.serialize());
+ *
+ * // Client
+ * createSSRApp(App).use(createDeskSSR(window.__DESKS__)).mount('#app');
+ * ```
+ */
+export const createDeskSSR = (state?: DeskSSRState): DeskSSR => {
+  const desks = new Set<DeskCore<any, any, any>>();
+  // Copy: taking a snapshot must not change the caller's state
+  const pending = new Map(Object.entries(state || {}).map(([id, list]) => [id, list.slice()]));
+
+  const ssr: DeskSSR = {
+    install: (app) => {
+      app.provide(DESK_SSR_KEY, ssr);
+    },
+    serialize: () => {
+      const serialized: DeskSSRState = {};
+      desks.forEach((desk) => {
+        (serialized[desk.deskId] ||= []).push(desk.snapshot());
+      });
+      return serialized;
+    },
+    register: (desk) => {
+      desks.add(desk);
+    },
+    unregister: (desk) => {
+      desks.delete(desk);
+    },
+    take: (deskId) => pending.get(deskId)?.shift(),
+  };
+
+  return ssr;
+};
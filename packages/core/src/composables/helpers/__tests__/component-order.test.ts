@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defineComponent,
+  getCurrentInstance,
+  h,
+  nextTick,
+  ref,
+  type ComponentInternalInstance,
+} from 'vue';
+import { mount } from '@vue/test-utils';
+import { ComponentOwners, trackTreeOrder } from '../component-order';
+
+describe('ComponentOwners', () => {
+  const component = (uid: number) => ({ uid }) as ComponentInternalInstance;
+
+  it('keeps owned ids sorted by component as they come and go', () => {
+    const owners = new ComponentOwners('mount');
+    const [first, second, third] = [component(1), component(2), component(3)];
+    owners.set('c', third);
+    owners.set('a', first);
+    owners.set('b', second);
+    owners.set('b2', second);
+
+    expect(owners.sort()).toEqual(['a', 'b', 'b2', 'c']);
+    expect(owners.after(first)).toBe('b');
+    expect(owners.after(second)).toBe('c');
+    expect(owners.after(third)).toBeUndefined();
+
+    owners.delete('b');
+    owners.set('a', third);
+    expect(owners.sort()).toEqual(['b2', 'c', 'a']);
+    expect(owners.size).toBe(3);
+  });
+});
+
+describe('trackTreeOrder()', () => {
+  const mountParent = () => {
+    const count = ref(0);
+    let track!: (refresh: () => void | Promise<void>) => () => void;
+    mount(
+      defineComponent({
+        setup() {
+          const instance = getCurrentInstance()!;
+          track = (refresh) => trackTreeOrder(instance, refresh);
+          return () => h('p', count.value);
+        },
+      })
+    );
+    const rerender = async () => {
+      count.value++;
+      await nextTick();
+    };
+    return { track, rerender };
+  };
+
+  it('runs each callback once per re-render, until every child untracks it', async () => {
+    const { track, rerender } = mountParent();
+    let runs = 0;
+    const refresh = () => {
+      runs++;
+    };
+    const untrackFirst = track(refresh);
+    const untrackSecond = track(refresh);
+
+    await rerender();
+    expect(runs).toBe(1);
+
+    untrackFirst();
+    untrackFirst();
+    await rerender();
+    expect(runs).toBe(2);
+
+    untrackSecond();
+    await rerender();
+    expect(runs).toBe(2);
+  });
+
+  it('does not let a failing refresh reject unhandled', async () => {
+    const { track, rerender } = mountParent();
+    let runs = 0;
+    track(async () => {
+      runs++;
+      throw new Error('boom');
+    });
+
+    await rerender();
+    await rerender();
+
+    expect(runs).toBe(2);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { PluginGraph, PluginDependencyError, type PluginGraphNode } from '../plugin-graph';
+
+const names = (plugins: PluginGraphNode[]) => plugins.map((plugin) => plugin.name);
+const resolve = (plugins: PluginGraphNode[]) => names(new PluginGraph().resolve(plugins));
+
+describe('PluginGraph', () => {
+  it('keeps the given order without constraints', () => {
+    expect(resolve([{ name: 'b' }, { name: 'a' }, { name: 'c' }])).toEqual(['b', 'a', 'c']);
+  });
+
+  it('runs plugins after the ones they require or follow, and before the ones they precede', () => {
+    expect(
+      resolve([
+        { name: 'validation', requires: ['codec'] },
+        { name: 'x' },
+        { name: 'codec' },
+        { name: 'first', before: ['x', 'validation'] },
+      ])
+    ).toEqual(['codec', 'first', 'validation', 'x']);
+  });
+
+  it('ignores before/after constraints on plugins that are not installed', () => {
+    expect(
+      resolve([
+        { name: 'a', after: ['ghost'] },
+        { name: 'b', before: ['ghost'] },
+      ])
+    ).toEqual(['a', 'b']);
+  });
+
+  it('throws on a missing requirement, a conflict or a cycle', () => {
+    expect(() => resolve([{ name: 'validation', requires: ['codec'] }])).toThrow(
+      new PluginDependencyError("Plugin 'validation' requires 'codec', which is not installed")
+    );
+    expect(() => resolve([{ name: 'a', conflicts: ['b'] }, { name: 'b' }])).toThrow(
+      "Plugin 'a' conflicts with 'b'"
+    );
+    expect(() =>
+      resolve([
+        { name: 'a', after: ['b'] },
+        { name: 'b', after: ['c'] },
+        { name: 'c', before: ['b'], after: ['a'] },
+        { name: 'd' },
+      ])
+    ).toThrow("Plugin order has a cycle between: 'a', 'b', 'c'");
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { RegistryOrder } from '../registry-order';
+
+const orderOf = (ids: Array<string | number>) => {
+  const order = new RegistryOrder();
+  ids.forEach((id) => order.insert(id));
+  return order;
+};
+
+describe('RegistryOrder', () => {
+  it('appends by default and inserts at a position', () => {
+    const order = orderOf(['a', 'c']);
+
+    order.insert('b', { before: 'c' });
+    order.insert('z', { index: 0 });
+    order.insert('d', { after: 'c' });
+    order.insert('end', { index: -1 });
+
+    expect(order.toArray()).toEqual(['z', 'a', 'b', 'c', 'd', 'end']);
+    expect(order.indexOf('c')).toBe(3);
+  });
+
+  it('keeps the place of an id inserted again without position', () => {
+    const order = orderOf(['a', 'b', 'c']);
+
+    order.insert('a');
+    expect(order.toArray()).toEqual(['a', 'b', 'c']);
+
+    order.insert('a', { after: 'c' });
+    expect(order.toArray()).toEqual(['b', 'c', 'a']);
+  });
+
+  it('keeps positions right across removals', () => {
+    const order = orderOf(['a', 'b', 'c', 'd', 'e']);
+
+    expect(order.remove('b')).toBe(true);
+    expect(order.remove('d')).toBe(true);
+    expect(order.remove('d')).toBe(false);
+    order.insert('f');
+
+    expect(order.size).toBe(4);
+    expect(order.has('b')).toBe(false);
+    expect(order.indexOf('e')).toBe(2);
+    expect(order.toArray()).toEqual(['a', 'c', 'e', 'f']);
+
+    order.insert('b', { before: 'e' });
+    expect(order.toArray()).toEqual(['a', 'c', 'b', 'e', 'f']);
+  });
+
+  it('moves an id and returns its previous index', () => {
+    const order = orderOf(['a', 'b', 'c', 'd']);
+    order.remove('a');
+
+    expect(order.move('b', -1)).toBe(0);
+    expect(order.toArray()).toEqual(['c', 'd', 'b']);
+    expect(order.indexOf('b')).toBe(2);
+    expect(order.indexOf('c')).toBe(0);
+    expect(order.move('unknown', 0)).toBe(-1);
+  });
+
+  it('puts listed ids first when reordering', () => {
+    const order = orderOf(['a', 'b', 'c', 'd']);
+
+    order.reorder(['c', 'unknown', 'a', 'c']);
+
+    expect(order.toArray()).toEqual(['c', 'a', 'b', 'd']);
+    expect(order.indexOf('d')).toBe(3);
+  });
+});
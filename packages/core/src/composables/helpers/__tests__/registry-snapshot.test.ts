@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { reactive, ref } from 'vue';
+import { diffSnapshots, toSerializable, type DeskSnapshot } from '../registry-snapshot';
+
+const snapshot = (items: DeskSnapshot['items']): DeskSnapshot => ({
+  version: 1,
+  deskId: 'products',
+  items,
+});
+
+describe('toSerializable()', () => {
+  it('unwraps refs and reactive objects and converts dates', () => {
+    expect(
+      toSerializable({
+        label: ref('A'),
+        tags: reactive(['x']),
+        at: new Date(Date.UTC(2024, 0, 1)),
+      })
+    ).toEqual({ label: 'A', tags: ['x'], at: '2024-01-01T00:00:00.000Z' });
+  });
+
+  it('leaves out what JSON cannot hold', () => {
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+
+    expect(
+      toSerializable({
+        onClick: () => undefined,
+        instance: new Map(),
+        ratio: NaN,
+        list: [1, () => undefined, Infinity],
+        circular,
+      })
+    ).toEqual({ list: [1, null, null], circular: { name: 'loop' } });
+  });
+});
+
+describe('diffSnapshots()', () => {
+  it('lists added, removed and changed items with their changed fields', () => {
+    const before = snapshot([
+      { id: 'a', data: { name: 'A', nested: { x: 1 } }, version: 1 },
+      { id: 'b', data: { name: 'B' }, version: 1 },
+    ]);
+    const after = snapshot([
+      { id: 'a', data: { name: 'A', nested: { x: 2 } }, meta: { tag: 1 }, version: 2 },
+      { id: 'c', data: { name: 'C' }, version: 1 },
+    ]);
+
+    const diff = diffSnapshots(before, after);
+
+    expect(diff.added.map((item) => item.id)).toEqual(['c']);
+    expect(diff.removed.map((item) => item.id)).toEqual(['b']);
+    expect(diff.changed.map((change) => [change.id, change.fields])).toEqual([
+      [
+        'a',
+        [
+          { path: ['data', 'nested', 'x'], before: 1, after: 2 },
+          { path: ['meta'], before: undefined, after: { tag: 1 } },
+        ],
+      ],
+    ]);
+  });
+
+  it('ignores versions, timestamps and order', () => {
+    const before = snapshot([
+      { id: 'a', data: { tags: ['x'] }, version: 1, timestamp: 1 },
+      { id: 'b', data: {}, version: 1 },
+    ]);
+    const after = snapshot([
+      { id: 'b', data: {}, version: 4 },
+      { id: 'a', data: { tags: ['x'] }, version: 3, timestamp: 2 },
+    ]);
+
+    expect(diffSnapshots(before, after)).toEqual({ added: [], removed: [], changed: [] });
+  });
+});
@@ -13,6 +13,26 @@
  */
 export class AsyncUpdateGuard {
   private updateCounter = 0;
+  private controller: AbortController | null = null;
+
+  /**
+   * Signal for the desk operations started by the owner,
+   * aborted by `abort()` / `reset()` (e.g. when the component unmounts)
+   */
+  get signal(): AbortSignal {
+    if (!this.controller) {
+      this.controller = new AbortController();
+    }
+    return this.controller.signal;
+  }
+
+  /**
+   * Abort the in-flight desk operations. Later operations get a fresh signal.
+   */
+  abort(reason?: unknown): void {
+    this.controller?.abort(reason);
+    this.controller = null;
+  }
 
   /**
    * Start a new async operation and get its token
@@ -29,9 +49,10 @@ export class AsyncUpdateGuard {
   }
 
   /**
-   * Reset counter (useful for cleanup)
+   * Reset counter and abort in-flight operations (useful for cleanup)
    */
   reset(): void {
     this.updateCounter = 0;
+    this.abort();
   }
 }
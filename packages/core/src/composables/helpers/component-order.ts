@@ -0,0 +1,223 @@
+import { onUpdated, type ComponentInternalInstance, type VNode } from 'vue';
+
+/**
+ * How a desk orders the items checked in by components:
+ * - 'explicit': in check-in order, or at the position given (`index`, `before`, `after`, `move()`)
+ * - 'mount': in the order their components were created, whenever their data resolves
+ * - 'tree': in the order of their components in the component tree (template order)
+ */
+export type DeskOrderMode = 'explicit' | 'mount' | 'tree';
+
+/**
+ * Rendered subtree -> depth-first position of each component in it.
+ * A re-render creates a new subtree, so positions are computed once per render.
+ */
+const positionsBySubTree = new WeakMap<VNode, Map<ComponentInternalInstance, number>>();
+
+/**
+ * Depth-first positions of the components in `root`, without entering them
+ */
+const componentPositions = (root: VNode): Map<ComponentInternalInstance, number> => {
+  const positions = new Map<ComponentInternalInstance, number>();
+  let position = 0;
+  const visit = (node: unknown) => {
+    if (!node || typeof node !== 'object') return;
+    const vnode = node as VNode;
+    // A component's subtree belongs to its own instance
+    if (vnode.component) {
+      positions.set(vnode.component, position++);
+      return;
+    }
+    position++;
+    if (Array.isArray(vnode.children)) vnode.children.forEach(visit);
+  };
+  visit(root);
+  return positions;
+};
+
+/**
+ * Position of `target` in `root`, -1 if not found
+ */
+const positionIn = (root: VNode | null, target: ComponentInternalInstance): number => {
+  if (!root) return -1;
+  let positions = positionsBySubTree.get(root);
+  // Components still mounting when the positions were computed are missing
+  if (!positions?.has(target)) {
+    positions = componentPositions(root);
+    positionsBySubTree.set(root, positions);
+  }
+  return positions.get(target) ?? -1;
+};
+
+/**
+ * Position of a component from the root: its position in its parent's subtree,
+ * preceded by its parent's own path
+ */
+const treePath = (instance: ComponentInternalInstance): number[] => {
+  const path: number[] = [];
+  for (let current = instance; current.parent; current = current.parent) {
+    path.unshift(positionIn(current.parent.subTree, current));
+  }
+  return path;
+};
+
+const comparePaths = (a: number[], b: number[]): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+
+/**
+ * Compares the components owning two items. Items without component come last.
+ * Tree paths are computed once per comparator: create one per sort.
+ */
+export const createOwnerComparator = (mode: Exclude<DeskOrderMode, 'explicit'>) => {
+  const paths = new Map<ComponentInternalInstance, number[]>();
+  const pathOf = (instance: ComponentInternalInstance) => {
+    let path = paths.get(instance);
+    if (!path) {
+      path = treePath(instance);
+      paths.set(instance, path);
+    }
+    return path;
+  };
+
+  return (a?: ComponentInternalInstance, b?: ComponentInternalInstance): number => {
+    if (!a || !b) return (a ? 0 : 1) - (b ? 0 : 1);
+    // Uids increase as components are created
+    if (mode === 'mount') return a.uid - b.uid;
+    return comparePaths(pathOf(a), pathOf(b));
+  };
+};
+
+/**
+ * Components owning the items positioned by 'mount' and 'tree' order.
+ * Owned ids are also kept sorted by component, so a new item finds its place
+ * by binary search instead of scanning the registry.
+ */
+export class ComponentOwners {
+  private owners = new Map<string | number, ComponentInternalInstance>();
+  private sorted: Array<string | number> = [];
+
+  constructor(private mode: Exclude<DeskOrderMode, 'explicit'>) {}
+
+  get size(): number {
+    return this.owners.size;
+  }
+
+  has(id: string | number): boolean {
+    return this.owners.has(id);
+  }
+
+  get(id: string | number): ComponentInternalInstance | undefined {
+    return this.owners.get(id);
+  }
+
+  set(id: string | number, owner: ComponentInternalInstance): void {
+    this.delete(id);
+    this.owners.set(id, owner);
+    this.sorted.splice(this.search(owner), 0, id);
+  }
+
+  delete(id: string | number): boolean {
+    const owner = this.owners.get(id);
+    if (!owner) return false;
+
+    // Items of the same component sit together, before the search position
+    let index = this.search(owner) - 1;
+    while (
+      index >= 0 &&
+      this.sorted[index] !== id &&
+      this.owners.get(this.sorted[index]!) === owner
+    ) {
+      index--;
+    }
+    // Tree positions may have changed since the ids were sorted
+    if (this.sorted[index] !== id) index = this.sorted.indexOf(id);
+    this.sorted.splice(index, 1);
+    this.owners.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    this.owners.clear();
+    this.sorted = [];
+  }
+
+  /**
+   * First owned id whose component comes after `owner`
+   */
+  after(owner: ComponentInternalInstance): string | number | undefined {
+    return this.sorted[this.search(owner)];
+  }
+
+  /**
+   * Sorts the owned ids again (components moved in the tree)
+   * @returns Owned ids, sorted by component
+   */
+  sort(): Array<string | number> {
+    const compare = createOwnerComparator(this.mode);
+    this.sorted.sort((a, b) => compare(this.owners.get(a), this.owners.get(b)));
+    return this.sorted.slice();
+  }
+
+  /**
+   * Index of the first owned id whose component comes after `owner`
+   */
+  private search(owner: ComponentInternalInstance): number {
+    const compare = createOwnerComparator(this.mode);
+    let low = 0;
+    let high = this.sorted.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (compare(owner, this.owners.get(this.sorted[middle]!)) < 0) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return low;
+  }
+}
+
+type RefreshCallback = () => void | Promise<void>;
+
+/**
+ * Parent component -> callbacks to run when it re-renders, with the number of children using each
+ */
+const refreshByParent = new WeakMap<ComponentInternalInstance, Map<RefreshCallback, number>>();
+
+/**
+ * Runs `refresh` after each re-render of `parent`, when a keyed `v-for` may have
+ * moved the components it renders. Runs once per parent and callback, however
+ * many children track it. A failing refresh is reported by the desk itself.
+ * @returns Stops tracking for this child: `refresh` no longer runs once no child tracks it
+ */
+export const trackTreeOrder = (
+  parent: ComponentInternalInstance,
+  refresh: RefreshCallback
+): (() => void) => {
+  let callbacks = refreshByParent.get(parent);
+  if (!callbacks) {
+    const registered = new Map<RefreshCallback, number>();
+    refreshByParent.set(parent, registered);
+    onUpdated(() => {
+      registered.forEach((_, callback) => {
+        Promise.resolve(callback()).catch(() => undefined);
+      });
+    }, parent);
+    callbacks = registered;
+  }
+  const tracked = callbacks;
+  tracked.set(refresh, (tracked.get(refresh) ?? 0) + 1);
+
+  let untracked = false;
+  return () => {
+    if (untracked) return;
+    untracked = true;
+    const remaining = (tracked.get(refresh) ?? 1) - 1;
+    if (remaining > 0) tracked.set(refresh, remaining);
+    else tracked.delete(refresh);
+  };
+};
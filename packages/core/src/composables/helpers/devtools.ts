@@ -4,7 +4,20 @@
  */
 
 export interface DevToolsEvent {
-  type: 'check-in' | 'check-out' | 'update' | 'switch' | 'plugin-execute' | 'clear';
+  type:
+    | 'check-in'
+    | 'check-out'
+    | 'update'
+    | 'switch'
+    | 'move'
+    | 'reorder'
+    | 'transfer'
+    | 'plugin-execute'
+    | 'plugin-error'
+    | 'clear'
+    | 'batch'
+    | 'restore'
+    | 'rollback';
   timestamp: number;
   deskId: string;
   childId?: string | number;
@@ -27,6 +40,7 @@ export interface DevToolsHook {
     context?: Record<string, unknown>
   ): void;
   updateContext(deskId: string, context: Record<string, unknown>): void;
+  updateMetadata?(deskId: string, metadata: Record<string, unknown>): void;
   unregisterDesk?(deskId: string): void;
 }
 
@@ -103,6 +117,21 @@ const updateDevToolsContext = (deskId: string, context: Record<string, unknown>)
   }
 };
 
+/**
+ * Merge metadata into a registered desk (e.g. hierarchy changes)
+ */
+const updateDevToolsMetadata = (deskId: string, metadata: Record<string, unknown>): void => {
+  if (typeof window !== 'undefined' && window[HOOK_KEY]?.updateMetadata) {
+    try {
+      window[HOOK_KEY].updateMetadata(deskId, metadata);
+    } catch (error) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn('[vue-airport] DevTools updateMetadata failed:', error);
+      }
+    }
+  }
+};
+
 /**
  * Unregister desk from DevTools
  */
@@ -140,6 +169,7 @@ export const DevTools = {
   registerDesk: registerDeskWithDevTools,
   updateRegistry: updateDevToolsRegistry,
   updateContext: updateDevToolsContext,
+  updateMetadata: updateDevToolsMetadata,
   unregisterDesk: unregisterDeskWithDevTools,
   isAvailable: hasDevTools,
 };
@@ -161,6 +191,9 @@ export const NoOpDevTools = {
   updateContext(_deskId: string, _context: Record<string, unknown>): void {
     // No-op
   },
+  updateMetadata(_deskId: string, _metadata: Record<string, unknown>): void {
+    // No-op
+  },
   unregisterDesk(_deskId: string): void {
     // No-op
   },
@@ -1,63 +1,143 @@
 import { nextTick } from 'vue';
-import type { DeskEventType, DeskEventCallback, DeskEventPayload } from '../desk/desk-core';
+import type { DeskEventCallback, DeskEventPayload } from '../desk/desk-core';
 import { NoOp, Debug } from '../utils';
 
 const DebugPrefix = '[EventManager]';
 
+/**
+ * Listens to every event
+ */
+export const WildcardEvent = '*';
+
 /**
  * Event manager for desks.
  * Handles event listeners and event emission with batching.
+ *
+ * Event names are free-form strings: built-in desk events, and plugin events
+ * namespaced with a colon (e.g. 'active:changed'). Listeners can subscribe to
+ * one event, to a whole namespace ('active:*') or to everything ('*').
  */
 export class EventManager<T = any> {
-  public eventListeners = new Map<DeskEventType, Set<DeskEventCallback<T>>>();
+  public eventListeners = new Map<string, Set<DeskEventCallback<T>>>();
+  /**
+   * Listeners that also receive events bubbled up from sub-desks
+   */
+  public bubbleListeners = new Map<string, Set<DeskEventCallback<T>>>();
   private eventBatcher: EventBatcher<T>;
+  private bubbleBatcher: EventBatcher<T>;
+  /**
+   * `once()` wrappers -> original callbacks, so `off()` works with either
+   */
+  private onceOriginals = new WeakMap<DeskEventCallback<T>, DeskEventCallback<T>>();
   private debug = NoOp;
 
   constructor({ debug }: { debug?: boolean } = { debug: false }) {
     if (debug) {
       this.debug = Debug;
     }
-    this.eventBatcher = new EventBatcher<T>(this.eventListeners);
+    this.eventBatcher = new EventBatcher<T>((event) => this.resolve(this.eventListeners, event));
+    this.bubbleBatcher = new EventBatcher<T>((event) => this.resolve(this.bubbleListeners, event));
   }
 
-  public on(event: DeskEventType, callback: DeskEventCallback<T>) {
-    if (!this.eventListeners.has(event)) {
-      this.eventListeners.set(event, new Set());
+  public on(event: string, callback: DeskEventCallback<T>, options?: { bubbled?: boolean }) {
+    const target = options?.bubbled ? this.bubbleListeners : this.eventListeners;
+    if (!target.has(event)) {
+      target.set(event, new Set());
     }
-    this.eventListeners.get(event)!.add(callback);
+    target.get(event)!.add(callback);
     this.debug(
-      `${DebugPrefix} Listener added for '${event}', total: ${this.eventListeners.get(event)!.size}`
+      `${DebugPrefix} Listener added for '${event}'${options?.bubbled ? ' (bubbled)' : ''}, total: ${target.get(event)!.size}`
     );
 
     // Return unsubscribe function
     return () => this.off(event, callback);
   }
 
-  public off(event: DeskEventType, callback: DeskEventCallback<T>) {
-    const listeners = this.eventListeners.get(event);
-    if (listeners) {
-      listeners.delete(callback);
-      this.debug(`${DebugPrefix} Listener removed for '${event}', remaining: ${listeners.size}`);
-    }
+  /**
+   * Subscribes for a single emission
+   */
+  public once(event: string, callback: DeskEventCallback<T>, options?: { bubbled?: boolean }) {
+    let called = false;
+    const wrapper: DeskEventCallback<T> = (payload, emitted) => {
+      // A batch flush may already hold this listener for several payloads
+      if (called) return;
+      called = true;
+      this.off(event, wrapper);
+      callback(payload, emitted);
+    };
+    this.onceOriginals.set(wrapper, callback);
+
+    return this.on(event, wrapper, options);
+  }
+
+  public off(event: string, callback: DeskEventCallback<T>) {
+    [this.eventListeners, this.bubbleListeners].forEach((target) => {
+      const listeners = target.get(event);
+      if (!listeners) return;
+
+      listeners.forEach((listener) => {
+        if (listener === callback || this.onceOriginals.get(listener) === callback) {
+          listeners.delete(listener);
+          this.debug(
+            `${DebugPrefix} Listener removed for '${event}', remaining: ${listeners.size}`
+          );
+        }
+      });
+    });
   }
 
   public removeAllListeners() {
     this.eventListeners.clear();
+    this.bubbleListeners.clear();
     this.debug(`${DebugPrefix} All listeners removed`);
   }
 
-  public emit(event: DeskEventType, payload: DeskEventPayload<T>) {
+  public emit(event: string, payload: DeskEventPayload<T>) {
+    this.dispatch(this.eventBatcher, event, payload);
+  }
+
+  /**
+   * Emits to bubble listeners only (own events and events from sub-desks)
+   */
+  public emitBubbled(event: string, payload: DeskEventPayload<T>) {
+    this.dispatch(this.bubbleBatcher, event, payload);
+  }
+
+  /**
+   * Delivers the batched events now rather than on the next tick
+   */
+  public flush() {
+    this.eventBatcher.flush();
+    this.bubbleBatcher.flush();
+  }
+
+  private dispatch(batcher: EventBatcher<T>, event: string, payload: DeskEventPayload<T>) {
     // Use batching for update events (high frequency)
     if (event === 'update') {
-      this.eventBatcher.add(event, payload);
+      batcher.add(event, payload);
     } else {
       // Emit immediately for check-in/check-out/clear (lower frequency, more critical)
-      this.eventBatcher.emitImmediate(event, {
+      batcher.emitImmediate(event, {
         ...payload,
         timestamp: Date.now(),
       });
     }
   }
+
+  /**
+   * Listeners matching an event: exact name, then its namespace, then wildcard
+   */
+  private resolve(target: Map<string, Set<DeskEventCallback<T>>>, event: string) {
+    const keys = [event];
+    const separator = event.indexOf(':');
+    if (separator !== -1) {
+      keys.push(`${event.slice(0, separator)}:${WildcardEvent}`);
+    }
+    keys.push(WildcardEvent);
+
+    // Snapshot: `once()` listeners remove themselves while being called
+    return keys.flatMap((key) => Array.from(target.get(key) || []));
+  }
 }
 
 /**
@@ -65,24 +145,19 @@ export class EventManager<T = any> {
  * Groups multiple events into a single microtask.
  */
 export class EventBatcher<T = any> {
-  private pendingEvents: Map<
-    DeskEventType,
-    Array<
-      | { id?: string | number; data?: T; timestamp: number }
-      | { from: string | number; to: string | number; timestamp: number }
-    >
-  > = new Map();
+  private pendingEvents: Map<string, Array<DeskEventPayload<T> & { timestamp: number }>> =
+    new Map();
   private flushScheduled = false;
-  private listeners: Map<DeskEventType, Set<DeskEventCallback<T>>>;
+  private listenersFor: (event: string) => DeskEventCallback<T>[];
 
-  constructor(listeners: Map<DeskEventType, Set<DeskEventCallback<T>>>) {
-    this.listeners = listeners;
+  constructor(listenersFor: (event: string) => DeskEventCallback<T>[]) {
+    this.listenersFor = listenersFor;
   }
 
   /**
    * Adds an event to the batch queue
    */
-  public add(event: DeskEventType, payload: DeskEventPayload<T>) {
+  public add(event: string, payload: DeskEventPayload<T>) {
     if (!this.pendingEvents.has(event)) {
       this.pendingEvents.set(event, []);
     }
@@ -102,14 +177,14 @@ export class EventBatcher<T = any> {
   /**
    * Flushes all pending events
    */
-  private flush() {
+  public flush() {
     this.pendingEvents.forEach((payloads, event) => {
-      const listeners = this.listeners.get(event);
-      if (!listeners || listeners.size === 0) return;
+      const listeners = this.listenersFor(event);
+      if (listeners.length === 0) return;
 
       // Emit each payload to each listener
       payloads.forEach((payload) => {
-        listeners.forEach((callback) => callback(payload));
+        listeners.forEach((callback) => callback(payload, event));
       });
     });
 
@@ -121,13 +196,7 @@ export class EventBatcher<T = any> {
   /**
    * Immediately emits an event without batching
    */
-  public emitImmediate(
-    event: DeskEventType,
-    payload: { id?: string | number; data?: T; timestamp: number }
-  ) {
-    const listeners = this.listeners.get(event);
-    if (!listeners) return;
-
-    listeners.forEach((callback) => callback(payload));
+  public emitImmediate(event: string, payload: DeskEventPayload<T> & { timestamp: number }) {
+    this.listenersFor(event).forEach((callback) => callback(payload, event));
   }
 }
@@ -0,0 +1,83 @@
+/**
+ * Thrown when a lifecycle hook doesn't settle within its `hookTimeout`
+ */
+export class HookTimeoutError extends Error {
+  constructor(
+    public hook: string,
+    public timeout: number
+  ) {
+    super(`[DeskCore] Hook '${hook}' timed out after ${timeout}ms`);
+    this.name = 'HookTimeoutError';
+  }
+}
+
+export interface HookRunOptions {
+  /** Signal of the operation running the hook */
+  signal?: AbortSignal;
+  /** Stop waiting for the hook when `signal` aborts (default: true) */
+  abortable?: boolean;
+  /** Milliseconds before the hook is abandoned with a `HookTimeoutError` */
+  timeout?: number;
+}
+
+/**
+ * Signal handed to hooks that can neither time out nor be aborted
+ */
+const idleSignal = new AbortController().signal;
+
+/**
+ * Runs lifecycle hooks with cancellation and timeouts.
+ *
+ * Each hook receives its own signal, aborted when the operation is aborted
+ * or when the hook times out, so it can stop pending work (e.g. a `fetch`).
+ * A hook that ignores its signal is abandoned: its result is never used.
+ */
+export class HookRunner {
+  async run<R>(
+    hook: string,
+    run: (signal: AbortSignal) => R | Promise<R>,
+    options: HookRunOptions = {}
+  ): Promise<R> {
+    const { signal, abortable = true, timeout } = options;
+
+    if (abortable && signal?.aborted) {
+      throw signal.reason;
+    }
+    if (!signal && !timeout) {
+      return run(idleSignal);
+    }
+
+    const controller = new AbortController();
+    const cleanups: Array<() => void> = [];
+
+    const stopped = new Promise<never>((_, reject) => {
+      if (signal) {
+        const onAbort = () => {
+          controller.abort(signal.reason);
+          if (abortable) reject(signal.reason);
+        };
+        if (signal.aborted) {
+          onAbort();
+        } else {
+          signal.addEventListener('abort', onAbort, { once: true });
+          cleanups.push(() => signal.removeEventListener('abort', onAbort));
+        }
+      }
+
+      if (timeout && timeout > 0) {
+        const timer = setTimeout(() => {
+          const error = new HookTimeoutError(hook, timeout);
+          controller.abort(error);
+          reject(error);
+        }, timeout);
+        cleanups.push(() => clearTimeout(timer));
+      }
+    });
+
+    try {
+      return await Promise.race([(async () => run(controller.signal))(), stopped]);
+    } finally {
+      cleanups.forEach((cleanup) => cleanup());
+    }
+  }
+}
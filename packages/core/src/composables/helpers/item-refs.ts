@@ -0,0 +1,101 @@
+import { getCurrentScope, onScopeDispose, shallowRef, triggerRef, type ShallowRef } from 'vue';
+import type { CheckInItem } from '../desk/desk-core';
+
+interface ItemRefEntry<T> {
+  ref: ShallowRef<CheckInItem<T> | undefined>;
+  /** Version of the item when the ref was last synced */
+  version?: number;
+  /** Effect scopes using the ref */
+  users: number;
+  /** Used outside of an effect scope: kept for the lifetime of the desk */
+  pinned: boolean;
+}
+
+/**
+ * Fine-grained reactivity for a registry.
+ *
+ * The registry list is rebuilt on every change, so anything reading it re-runs
+ * whenever any item changes. Item refs only trigger when their own item changes:
+ * `sync()` compares each changed item with the one its ref last saw (identity and version).
+ * The id set only triggers when items are added or removed.
+ *
+ * Refs are counted per effect scope, and dropped when the last scope using them is disposed.
+ */
+export class ItemRefs<T = any> {
+  public readonly keys = shallowRef<ReadonlySet<string | number>>(new Set());
+  private refs = new Map<string | number, ItemRefEntry<T>>();
+
+  constructor(private registryMap: Map<string | number, CheckInItem<T>>) {}
+
+  /**
+   * Ref to an item, undefined while it isn't checked in.
+   * Created on first access. Released when the effect scopes that asked for it are
+   * disposed, kept for the lifetime of the desk if asked for outside of any scope.
+   */
+  get(id: string | number): ShallowRef<CheckInItem<T> | undefined> {
+    let entry = this.refs.get(id);
+    if (!entry) {
+      const item = this.registryMap.get(id);
+      entry = { ref: shallowRef(item), version: item?.version, users: 0, pinned: false };
+      this.refs.set(id, entry);
+    }
+
+    if (getCurrentScope()) {
+      const used = entry;
+      used.users++;
+      onScopeDispose(() => {
+        used.users--;
+        if (used.users === 0 && !used.pinned && this.refs.get(id) === used) {
+          this.refs.delete(id);
+        }
+      });
+    } else {
+      entry.pinned = true;
+    }
+    return entry.ref;
+  }
+
+  /**
+   * Trigger the refs of the items that changed since the last sync
+   * @param changed - Ids of the items that changed (all items if omitted)
+   */
+  sync(changed?: Array<string | number>): void {
+    if (changed) {
+      changed.forEach((id) => this.syncRef(id));
+    } else {
+      this.refs.forEach((_, id) => this.syncRef(id));
+    }
+
+    const keys = this.keys.value;
+    let keysChanged = false;
+    if (changed) {
+      keysChanged = changed.some((id) => keys.has(id) !== this.registryMap.has(id));
+    } else if (keys.size !== this.registryMap.size) {
+      keysChanged = true;
+    } else {
+      for (const id of keys) {
+        if (!this.registryMap.has(id)) {
+          keysChanged = true;
+          break;
+        }
+      }
+    }
+    if (keysChanged) {
+      this.keys.value = new Set(this.registryMap.keys());
+    }
+  }
+
+  private syncRef(id: string | number) {
+    const entry = this.refs.get(id);
+    if (!entry) return;
+
+    const item = this.registryMap.get(id);
+    if (item !== entry.ref.value) {
+      entry.ref.value = item;
+    } else if (item && item.version !== entry.version) {
+      // Same item, data changed in place
+      triggerRef(entry.ref);
+    }
+    entry.version = item?.version;
+  }
+}
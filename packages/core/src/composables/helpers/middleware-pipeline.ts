@@ -0,0 +1,26 @@
+/**
+ * Koa-style middleware: `next()` runs the rest of the chain and resolves to its result.
+ * Not calling `next()` short-circuits the operation with the returned value.
+ */
+export type Middleware<C> = (ctx: C, next: () => Promise<unknown>) => Promise<unknown>;
+
+/**
+ * Runs an operation through a middleware chain.
+ *
+ * Middleware run in the order given, each wrapping the following ones and
+ * finally the operation itself. `next()` may be called several times (retry):
+ * each call runs the rest of the chain again with the current `ctx`.
+ */
+export class MiddlewarePipeline<C> {
+  run<R>(middleware: Middleware<C>[], ctx: C, operation: (ctx: C) => R | Promise<R>): Promise<R> {
+    const dispatch = async (index: number): Promise<unknown> => {
+      const current = middleware[index];
+      if (!current) {
+        return operation(ctx);
+      }
+      return current(ctx, () => dispatch(index + 1));
+    };
+
+    return dispatch(0) as Promise<R>;
+  }
+}
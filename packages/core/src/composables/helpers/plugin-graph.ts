@@ -0,0 +1,97 @@
+/**
+ * Ordering declarations of a plugin (see `CheckInPlugin`)
+ */
+export interface PluginGraphNode {
+  name: string;
+  requires?: string[];
+  before?: string[];
+  after?: string[];
+  conflicts?: string[];
+}
+
+/**
+ * Thrown when plugins can't be installed together:
+ * missing requirement, conflict or ordering cycle.
+ */
+export class PluginDependencyError extends Error {
+  constructor(message: string) {
+    super(`[DeskCore] ${message}`);
+    this.name = 'PluginDependencyError';
+  }
+}
+
+/**
+ * Resolves the order in which a desk runs its plugins.
+ *
+ * `requires` fails if the plugin is missing and implies `after`.
+ * `before` / `after` only order plugins that are installed.
+ * Plugins without constraints keep the order they were given in.
+ */
+export class PluginGraph<P extends PluginGraphNode> {
+  /**
+   * Sort plugins so every plugin runs after the ones it depends on
+   * @throws PluginDependencyError on missing requirement, conflict or cycle
+   */
+  resolve(plugins: P[]): P[] {
+    const names = new Set(plugins.map((plugin) => plugin.name));
+
+    plugins.forEach((plugin) => {
+      plugin.requires?.forEach((required) => {
+        if (!names.has(required)) {
+          throw new PluginDependencyError(
+            `Plugin '${plugin.name}' requires '${required}', which is not installed`
+          );
+        }
+      });
+      plugin.conflicts?.forEach((conflicting) => {
+        if (conflicting !== plugin.name && names.has(conflicting)) {
+          throw new PluginDependencyError(
+            `Plugin '${plugin.name}' conflicts with '${conflicting}'`
+          );
+        }
+      });
+    });
+
+    // Edges by index: plugin -> plugins that must run after it
+    const indexesByName = new Map<string, number[]>();
+    plugins.forEach((plugin, index) => {
+      indexesByName.set(plugin.name, [...(indexesByName.get(plugin.name) || []), index]);
+    });
+    const successors = plugins.map(() => new Set<number>());
+    const link = (from: string, to: number) => {
+      indexesByName.get(from)?.forEach((index) => {
+        if (index !== to) successors[index]!.add(to);
+      });
+    };
+    plugins.forEach((plugin, index) => {
+      [...(plugin.requires || []), ...(plugin.after || [])].forEach((name) => link(name, index));
+      plugin.before?.forEach((name) => {
+        indexesByName.get(name)?.forEach((target) => {
+          if (target !== index) successors[index]!.add(target);
+        });
+      });
+    });
+
+    const incoming = plugins.map(() => 0);
+    successors.forEach((targets) => targets.forEach((target) => incoming[target]!++));
+
+    // Kahn's algorithm, always taking the first ready plugin to keep the given order
+    const resolved: P[] = [];
+    const done = new Set<number>();
+    while (resolved.length < plugins.length) {
+      const next = incoming.findIndex((count, index) => count === 0 && !done.has(index));
+      if (next === -1) {
+        const cycle = plugins.filter((_, index) => !done.has(index)).map((p) => p.name);
+        throw new PluginDependencyError(
+          `Plugin order has a cycle between: ${cycle.map((name) => `'${name}'`).join(', ')}`
+        );
+      }
+
+      done.add(next);
+      resolved.push(plugins[next]!);
+      successors[next]!.forEach((target) => incoming[target]!--);
+    }
+
+    return resolved;
+  }
+}
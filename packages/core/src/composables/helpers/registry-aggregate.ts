@@ -0,0 +1,352 @@
+import { shallowRef, type ShallowRef } from 'vue';
+import type { CheckInItem } from '../desk/desk-core';
+import type { RegistryObserver } from './registry-view';
+
+/**
+ * Running state of an aggregator, fed with item values as items come and go
+ */
+export interface DeskAccumulator<R = any> {
+  add: (value: any) => void;
+  remove: (value: any) => void;
+  result: () => R;
+}
+
+/**
+ * Aggregation function for `desk.aggregate()` (see `sum()`, `count()`, `avg()`, `min()`, `max()`)
+ */
+export interface DeskAggregator<T = any, R = any> {
+  /** Value an item contributes, undefined or null for none */
+  value: (item: CheckInItem<T>) => any;
+  accumulator: () => DeskAccumulator<R>;
+}
+
+export type DeskAggregateSpec<T = any> = Record<string, DeskAggregator<T, any>>;
+
+export type DeskAggregateValues<S extends DeskAggregateSpec> = {
+  [K in keyof S]: S[K] extends DeskAggregator<any, infer R> ? R : never;
+};
+
+/**
+ * Data field of an item, or a function computing the value from its data
+ */
+export type DeskAggregateField<T = any> = keyof T | ((data: T) => any);
+
+/**
+ * Live aggregation returned by `desk.aggregate()`
+ */
+export interface DeskAggregation<S extends DeskAggregateSpec = DeskAggregateSpec> {
+  readonly values: Readonly<ShallowRef<DeskAggregateValues<S>>>;
+  /** Stop maintaining the aggregation (automatic in a component or effect scope) */
+  stop: () => void;
+}
+
+/**
+ * Live groups returned by `desk.groupBy()`
+ */
+export interface DeskGroups<T = any, K = any> {
+  /** Items by group key, in the order they joined their group */
+  readonly groups: Readonly<ShallowRef<ReadonlyMap<K, CheckInItem<T>[]>>>;
+  /** Stop maintaining the groups (automatic in a component or effect scope) */
+  stop: () => void;
+}
+
+const fieldOf =
+  <T>(field: DeskAggregateField<T>) =>
+  (item: CheckInItem<T>) =>
+    typeof field === 'function' ? field(item.data) : item.data?.[field];
+
+/**
+ * Field as a finite number, undefined otherwise: one NaN or Infinity
+ * would stick in a running total even after its item is gone
+ */
+const numberOf = <T>(field: DeskAggregateField<T>) => {
+  const valueOf = fieldOf(field);
+  return (item: CheckInItem<T>) => {
+    const value = valueOf(item);
+    if (value == null) return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  };
+};
+
+/**
+ * Running total with Neumaier compensated summation, so adding and removing
+ * values doesn't leave rounding residue behind. Back to exactly 0 when empty.
+ */
+const runningTotal = () => {
+  let total = 0;
+  let compensation = 0;
+  let size = 0;
+  const addTerm = (value: number) => {
+    const next = total + value;
+    compensation +=
+      Math.abs(total) >= Math.abs(value) ? total - next + value : value - next + total;
+    total = next;
+  };
+  return {
+    add: (value: number) => {
+      addTerm(value);
+      size++;
+    },
+    remove: (value: number) => {
+      size--;
+      if (size === 0) {
+        total = 0;
+        compensation = 0;
+      } else {
+        addTerm(-value);
+      }
+    },
+    size: () => size,
+    result: () => total + compensation,
+  };
+};
+
+/**
+ * Sum of a numeric field. Values that aren't finite numbers are ignored.
+ */
+export const sum = <T = any>(field: DeskAggregateField<T>): DeskAggregator<T, number> => ({
+  value: numberOf(field),
+  accumulator: () => {
+    const total = runningTotal();
+    return {
+      add: total.add,
+      remove: total.remove,
+      result: total.result,
+    };
+  },
+});
+
+/**
+ * Number of items, optionally only those matching `predicate`
+ */
+export const count = <T = any>(predicate?: (data: T) => boolean): DeskAggregator<T, number> => ({
+  value: (item) => (!predicate || predicate(item.data) ? 1 : undefined),
+  accumulator: () => {
+    let total = 0;
+    return {
+      add: () => total++,
+      remove: () => total--,
+      result: () => total,
+    };
+  },
+});
+
+/**
+ * Average of a numeric field (undefined without values).
+ * Values that aren't finite numbers are ignored.
+ */
+export const avg = <T = any>(
+  field: DeskAggregateField<T>
+): DeskAggregator<T, number | undefined> => ({
+  value: numberOf(field),
+  accumulator: () => {
+    const total = runningTotal();
+    return {
+      add: total.add,
+      remove: total.remove,
+      result: () => (total.size() > 0 ? total.result() / total.size() : undefined),
+    };
+  },
+});
+
+/**
+ * Keeps value counts so removing the current extreme only rescans distinct values
+ */
+const extreme = <T>(field: DeskAggregateField<T>, better: (a: any, b: any) => boolean) => ({
+  value: fieldOf(field),
+  accumulator: () => {
+    const counts = new Map<any, number>();
+    let current: any = undefined;
+    return {
+      add: (value: any) => {
+        counts.set(value, (counts.get(value) || 0) + 1);
+        if (current === undefined || better(value, current)) current = value;
+      },
+      remove: (value: any) => {
+        const remaining = (counts.get(value) || 0) - 1;
+        if (remaining > 0) {
+          counts.set(value, remaining);
+          return;
+        }
+        counts.delete(value);
+        if (value === current) {
+          current = undefined;
+          counts.forEach((_, candidate) => {
+            if (current === undefined || better(candidate, current)) current = candidate;
+          });
+        }
+      },
+      result: () => current,
+    };
+  },
+});
+
+/**
+ * Smallest value of a field (undefined without values)
+ */
+export const min = <T = any, R = any>(
+  field: DeskAggregateField<T>
+): DeskAggregator<T, R | undefined> => extreme(field, (a, b) => a < b);
+
+/**
+ * Largest value of a field (undefined without values)
+ */
+export const max = <T = any, R = any>(
+  field: DeskAggregateField<T>
+): DeskAggregator<T, R | undefined> => extreme(field, (a, b) => a > b);
+
+/**
+ * Maintains aggregations incrementally.
+ *
+ * The value each item contributed is remembered, so a change only removes
+ * the old contribution and adds the new one instead of rescanning the registry.
+ */
+export class RegistryAggregation<T = any, S extends DeskAggregateSpec<T> = DeskAggregateSpec<T>>
+  implements DeskAggregation<S>, RegistryObserver
+{
+  public readonly values: ShallowRef<DeskAggregateValues<S>>;
+
+  private names: Array<keyof S>;
+  private accumulators: DeskAccumulator[] = [];
+  /** Contribution of each item, per aggregator */
+  private contributions = new Map<string | number, any[]>();
+
+  constructor(
+    private registryMap: Map<string | number, CheckInItem<T>>,
+    private spec: S,
+    private onStop: (observer: RegistryObserver) => void
+  ) {
+    this.names = Object.keys(spec) as Array<keyof S>;
+    this.values = shallowRef(this.rebuild());
+  }
+
+  stop = (): void => {
+    this.onStop(this);
+  };
+
+  sync(changed?: Array<string | number>): void {
+    if (!changed) {
+      this.values.value = this.rebuild();
+      return;
+    }
+    if (changed.length === 0) return;
+
+    changed.forEach((id) => {
+      const previous = this.contributions.get(id);
+      if (previous) {
+        previous.forEach((value, index) => {
+          if (value != null) this.accumulators[index]!.remove(value);
+        });
+        this.contributions.delete(id);
+      }
+      const item = this.registryMap.get(id);
+      if (item) this.add(item);
+    });
+
+    this.values.value = this.result();
+  }
+
+  private rebuild() {
+    this.accumulators = this.names.map((name) => this.spec[name]!.accumulator());
+    this.contributions.clear();
+    this.registryMap.forEach((item) => this.add(item));
+    return this.result();
+  }
+
+  private add(item: CheckInItem<T>) {
+    const values = this.names.map((name) => this.spec[name]!.value(item));
+    values.forEach((value, index) => {
+      if (value != null) this.accumulators[index]!.add(value);
+    });
+    this.contributions.set(item.id, values);
+  }
+
+  private result() {
+    const values = {} as DeskAggregateValues<S>;
+    this.names.forEach((name, index) => {
+      values[name] = this.accumulators[index]!.result();
+    });
+    return values;
+  }
+}
+
+/**
+ * Maintains groups incrementally.
+ *
+ * Each change only moves the changed items between groups. Groups that changed
+ * get a new array (and the map a new identity), so watchers see the change.
+ */
+export class RegistryGroups<T = any, K = any> implements DeskGroups<T, K>, RegistryObserver {
+  public readonly groups = shallowRef<ReadonlyMap<K, CheckInItem<T>[]>>(new Map());
+
+  /** Group key of each item */
+  private keys = new Map<string | number, K>();
+
+  constructor(
+    private registryMap: Map<string | number, CheckInItem<T>>,
+    private keyOf: (item: CheckInItem<T>) => K,
+    private onStop: (observer: RegistryObserver) => void
+  ) {
+    this.rebuild();
+  }
+
+  stop = (): void => {
+    this.onStop(this);
+  };
+
+  sync(changed?: Array<string | number>): void {
+    if (!changed) {
+      this.rebuild();
+      return;
+    }
+    if (changed.length === 0) return;
+
+    const groups = new Map(this.groups.value);
+    const copied = new Set<K>();
+    const groupFor = (key: K) => {
+      if (!copied.has(key)) {
+        groups.set(key, [...(groups.get(key) || [])]);
+        copied.add(key);
+      }
+      return groups.get(key)!;
+    };
+
+    changed.forEach((id) => {
+      if (this.keys.has(id)) {
+        const key = this.keys.get(id)!;
+        const group = groupFor(key);
+        group.splice(
+          group.findIndex((entry) => entry.id === id),
+          1
+        );
+        if (group.length === 0) {
+          groups.delete(key);
+          copied.delete(key);
+        }
+        this.keys.delete(id);
+      }
+
+      const item = this.registryMap.get(id);
+      if (item) {
+        const key = this.keyOf(item);
+        groupFor(key).push(item);
+        this.keys.set(id, key);
+      }
+    });
+
+    this.groups.value = groups;
+  }
+
+  private rebuild() {
+    const groups = new Map<K, CheckInItem<T>[]>();
+    this.keys.clear();
+    this.registryMap.forEach((item) => {
+      const key = this.keyOf(item);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(item);
+      this.keys.set(item.id, key);
+    });
+    this.groups.value = groups;
+  }
+}
@@ -0,0 +1,157 @@
+import type { CheckInItem } from '../desk/desk-core';
+
+/**
+ * Declarative index definition for a desk.
+ * A plain key is shorthand for `{ key, unique: false }`.
+ */
+export type DeskIndexDefinition<T = any> =
+  | (keyof T & string)
+  | {
+      key: keyof T & string;
+      /** Reject check-ins/updates that would duplicate an existing value */
+      unique?: boolean;
+    };
+
+/**
+ * Single-field index: value -> ids.
+ * Keeps the indexed value per id so entries can be removed even after
+ * the item's data was mutated in place.
+ */
+export class RegistryIndex<T = any> {
+  private buckets = new Map<unknown, Set<string | number>>();
+  private valueById = new Map<string | number, unknown>();
+
+  constructor(
+    public readonly key: keyof T & string,
+    public readonly unique = false
+  ) {}
+
+  /**
+   * Index an item (replaces any previous entry for the same id)
+   */
+  add(item: CheckInItem<T>): void {
+    this.remove(item.id);
+
+    const value = this.valueOf(item.data);
+    if (value === undefined) return;
+
+    let bucket = this.buckets.get(value);
+    if (!bucket) {
+      bucket = new Set();
+      this.buckets.set(value, bucket);
+    }
+    bucket.add(item.id);
+    this.valueById.set(item.id, value);
+  }
+
+  /**
+   * Remove an item from the index
+   */
+  remove(id: string | number): void {
+    if (!this.valueById.has(id)) return;
+
+    const value = this.valueById.get(id);
+    const bucket = this.buckets.get(value);
+    if (bucket) {
+      bucket.delete(id);
+      if (bucket.size === 0) this.buckets.delete(value);
+    }
+    this.valueById.delete(id);
+  }
+
+  /**
+   * Ids indexed under a value
+   */
+  lookup(value: unknown): Set<string | number> | undefined {
+    return this.buckets.get(value);
+  }
+
+  /**
+   * For unique indexes: id of another item already holding the same value
+   */
+  findConflict(id: string | number, data: T): string | number | undefined {
+    if (!this.unique) return undefined;
+
+    const value = this.valueOf(data);
+    if (value === undefined) return undefined;
+
+    const bucket = this.buckets.get(value);
+    if (!bucket) return undefined;
+
+    for (const other of bucket) {
+      if (other !== id) return other;
+    }
+    return undefined;
+  }
+
+  clear(): void {
+    this.buckets.clear();
+    this.valueById.clear();
+  }
+
+  private valueOf(data: T): unknown {
+    if (data === null || typeof data !== 'object') return undefined;
+    return (data as Record<string, unknown>)[this.key];
+  }
+}
+
+/**
+ * Set of indexes maintained alongside a desk registry
+ */
+export class RegistryIndexes<T = any> {
+  private indexes = new Map<keyof T & string, RegistryIndex<T>>();
+
+  constructor(definitions: DeskIndexDefinition<T>[] = []) {
+    definitions.forEach((definition) => {
+      if (typeof definition === 'string') {
+        this.indexes.set(definition, new RegistryIndex<T>(definition));
+        return;
+      }
+      this.indexes.set(definition.key, new RegistryIndex<T>(definition.key, !!definition.unique));
+    });
+  }
+
+  get keys(): Array<keyof T & string> {
+    return Array.from(this.indexes.keys());
+  }
+
+  get(key: keyof T & string): RegistryIndex<T> | undefined {
+    return this.indexes.get(key);
+  }
+
+  add(item: CheckInItem<T>): void {
+    this.indexes.forEach((index) => index.add(item));
+  }
+
+  remove(id: string | number): void {
+    this.indexes.forEach((index) => index.remove(id));
+  }
+
+  /**
+   * First unique index violated by `data` for item `id`, if any
+   */
+  findConflict(
+    id: string | number,
+    data: T
+  ): { key: keyof T & string; id: string | number } | undefined {
+    for (const index of this.indexes.values()) {
+      const conflictId = index.findConflict(id, data);
+      if (conflictId !== undefined) {
+        return { key: index.key, id: conflictId };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Rebuild all indexes from the registry (after clear or rollback)
+   */
+  rebuild(registryMap: Map<string | number, CheckInItem<T>>): void {
+    this.indexes.forEach((index) => index.clear());
+    registryMap.forEach((item) => this.add(item));
+  }
+
+  clear(): void {
+    this.indexes.forEach((index) => index.clear());
+  }
+}
@@ -0,0 +1,165 @@
+import type { ComponentInternalInstance } from 'vue';
+import type { CheckInItem } from '../desk/desk-core';
+import type { ComponentOwners } from './component-order';
+import type { RegistryIndexes } from './registry-index';
+import type { RegistryOrder } from './registry-order';
+
+/**
+ * State of a desk an operation can change, and a journal restores
+ */
+export interface JournaledState<T = any> {
+  registryMap: Map<string | number, CheckInItem<T>>;
+  order: RegistryOrder;
+  indexes: RegistryIndexes<T>;
+  hydratedIds: Set<string | number>;
+  owners: ComponentOwners;
+}
+
+/**
+ * An item as it was before the journaled operation first changed it
+ */
+interface JournalEntry<T> {
+  /** Undefined if the id was free */
+  item?: CheckInItem<T>;
+  data?: T;
+  fields?: Record<string, unknown>;
+  version?: number;
+  timestamp?: number;
+  meta?: Record<string, any>;
+  hydrated: boolean;
+  owner?: ComponentInternalInstance;
+}
+
+/**
+ * Records what an operation (or a transaction) changes, so it can be undone
+ * without touching what other operations did in the meantime.
+ *
+ * `update()` mutates `item.data` in place and `switchItems()` swaps data references,
+ * so each entry keeps both the original item/data references and a shallow copy
+ * of the data fields. Rolling back puts back the same object identities children hold.
+ */
+export class RegistryJournal<T = any> {
+  private entries = new Map<string | number, JournalEntry<T>>();
+  private orderBefore?: Array<string | number>;
+
+  constructor(private state: JournaledState<T>) {}
+
+  /**
+   * Record an item before it changes. Only its first change is recorded.
+   */
+  record(id: string | number): void {
+    if (this.entries.has(id)) return;
+    this.recordOrder();
+
+    const { registryMap, hydratedIds, owners } = this.state;
+    const item = registryMap.get(id);
+    this.entries.set(id, {
+      item,
+      data: item?.data,
+      fields:
+        typeof item?.data === 'object' && item.data !== null
+          ? { ...(item.data as Record<string, unknown>) }
+          : undefined,
+      version: item?.version,
+      timestamp: item?.timestamp,
+      meta: item?.meta,
+      hydrated: hydratedIds.has(id),
+      owner: owners.get(id),
+    });
+  }
+
+  /**
+   * Record the positions of the items, before the first change
+   */
+  recordOrder(): void {
+    this.orderBefore ??= this.state.order.toArray();
+  }
+
+  /**
+   * Take over the changes recorded by a nested journal. For items both changed,
+   * the earlier state (this journal's) is kept.
+   */
+  absorb(nested: RegistryJournal<T>): void {
+    nested.entries.forEach((entry, id) => {
+      if (!this.entries.has(id)) this.entries.set(id, entry);
+    });
+    this.orderBefore ??= nested.orderBefore;
+    nested.entries.clear();
+    nested.orderBefore = undefined;
+  }
+
+  /**
+   * Undo the recorded changes. Items the operation didn't change are left as they are,
+   * even if other operations changed them in the meantime.
+   * @returns Ids of the items restored
+   */
+  rollback(): Array<string | number> {
+    const { registryMap, order, indexes, hydratedIds, owners } = this.state;
+    const ids = Array.from(this.entries.keys());
+
+    this.entries.forEach((entry, id) => {
+      indexes.remove(id);
+
+      const { item, fields } = entry;
+      if (!item) {
+        registryMap.delete(id);
+        order.remove(id);
+        hydratedIds.delete(id);
+        owners.delete(id);
+        return;
+      }
+
+      if (fields) {
+        const target = entry.data as Record<string, unknown>;
+        Object.keys(target).forEach((key) => {
+          if (!(key in fields)) delete target[key];
+        });
+        Object.assign(target, fields);
+      }
+
+      item.data = entry.data as T;
+      item.version = entry.version!;
+      item.timestamp = entry.timestamp;
+      item.meta = entry.meta;
+      registryMap.set(id, item);
+      indexes.add(item);
+
+      if (entry.hydrated) hydratedIds.add(id);
+      else hydratedIds.delete(id);
+      if (entry.owner) owners.set(id, entry.owner);
+      else owners.delete(id);
+    });
+
+    if (this.orderBefore) {
+      order.reset(this.mergeOrder(this.orderBefore));
+    }
+
+    this.entries.clear();
+    this.orderBefore = undefined;
+    return ids;
+  }
+
+  /**
+   * Positions from before the operation, with the items added by others since
+   * kept after the item that precedes them now
+   */
+  private mergeOrder(before: Array<string | number>): Array<string | number> {
+    const { registryMap, order } = this.state;
+    const restored = before.filter((id) => registryMap.has(id));
+    const known = new Set(restored);
+
+    const head: Array<string | number> = [];
+    const following = new Map<string | number, Array<string | number>>();
+    let previous: string | number | undefined;
+    order.toArray().forEach((id) => {
+      if (known.has(id)) {
+        previous = id;
+      } else if (registryMap.has(id)) {
+        if (previous === undefined) head.push(id);
+        else following.set(previous, [...(following.get(previous) || []), id]);
+      }
+    });
+
+    return [...head, ...restored.flatMap((id) => [id, ...(following.get(id) || [])])];
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Position of an item when it is checked in.
+ * `index` wins over `before`, which wins over `after`. Default: append.
+ */
+export interface RegistryPosition {
+  index?: number;
+  before?: string | number;
+  after?: string | number;
+}
+
+/**
+ * Explicit ordering of registry ids.
+ * The Map stays the source of truth for items, this only tracks their positions.
+ *
+ * Positions are indexed by id. Removing an id leaves a hole, compacted on the next read
+ * of positions: appends and removals stay O(1), even when checking out many items.
+ */
+export class RegistryOrder {
+  /** Ids in order, with `undefined` where an id was removed */
+  private ids: Array<string | number | undefined> = [];
+  private positions = new Map<string | number, number>();
+  private holes = 0;
+
+  get size(): number {
+    return this.positions.size;
+  }
+
+  has(id: string | number): boolean {
+    return this.positions.has(id);
+  }
+
+  indexOf(id: string | number): number {
+    this.compact();
+    return this.positions.get(id) ?? -1;
+  }
+
+  toArray(): Array<string | number> {
+    this.compact();
+    return this.ids.slice() as Array<string | number>;
+  }
+
+  /**
+   * Insert an id at a position. An id already present keeps its place
+   * unless a position is given, in which case it is moved.
+   */
+  insert(id: string | number, position?: RegistryPosition): void {
+    const hasPosition =
+      position?.index !== undefined ||
+      position?.before !== undefined ||
+      position?.after !== undefined;
+
+    if (this.positions.has(id)) {
+      if (!hasPosition) return;
+      this.remove(id);
+    }
+
+    if (!hasPosition) {
+      this.positions.set(id, this.ids.push(id) - 1);
+      return;
+    }
+
+    this.compact();
+    const index = this.resolveIndex(position);
+    this.ids.splice(index, 0, id);
+    this.reindex(index);
+  }
+
+  remove(id: string | number): boolean {
+    const index = this.positions.get(id);
+    if (index === undefined) return false;
+    this.ids[index] = undefined;
+    this.positions.delete(id);
+    this.holes++;
+    return true;
+  }
+
+  /**
+   * Move an id to a new index (clamped).
+   * @returns The previous index, or -1 if the id is unknown
+   */
+  move(id: string | number, toIndex: number): number {
+    const fromIndex = this.indexOf(id);
+    if (fromIndex === -1) return -1;
+
+    this.ids.splice(fromIndex, 1);
+    const index = this.clamp(toIndex);
+    this.ids.splice(index, 0, id);
+    this.reindex(Math.min(fromIndex, index), Math.max(fromIndex, index) + 1);
+    return fromIndex;
+  }
+
+  /**
+   * Put the given ids first, in that order. Unknown ids are ignored,
+   * unlisted ids keep their relative order after the listed ones.
+   */
+  reorder(ids: Array<string | number>): void {
+    const listed = Array.from(new Set(ids)).filter((id) => this.positions.has(id));
+    const listedSet = new Set(listed);
+    this.reset([...listed, ...this.toArray().filter((id) => !listedSet.has(id))]);
+  }
+
+  reset(ids: Array<string | number>): void {
+    this.ids = ids.slice();
+    this.holes = 0;
+    this.positions.clear();
+    this.reindex(0);
+  }
+
+  clear(): void {
+    this.reset([]);
+  }
+
+  /**
+   * Drop the holes left by removed ids
+   */
+  private compact(): void {
+    if (this.holes === 0) return;
+    this.ids = this.ids.filter((id) => id !== undefined);
+    this.holes = 0;
+    this.reindex(0);
+  }
+
+  /**
+   * Update the positions of the ids from `start` to `end` (excluded)
+   */
+  private reindex(start: number, end = this.ids.length): void {
+    for (let index = start; index < end; index++) {
+      this.positions.set(this.ids[index]!, index);
+    }
+  }
+
+  private resolveIndex(position?: RegistryPosition): number {
+    if (position?.index !== undefined) {
+      return this.clamp(position.index);
+    }
+    if (position?.before !== undefined) {
+      const index = this.positions.get(position.before);
+      if (index !== undefined) return index;
+    }
+    if (position?.after !== undefined) {
+      const index = this.positions.get(position.after);
+      if (index !== undefined) return index + 1;
+    }
+    return this.ids.length;
+  }
+
+  private clamp(index: number): number {
+    // Negative indexes count from the end, like Array.prototype.at()
+    const resolved = index < 0 ? this.ids.length + index + 1 : index;
+    return Math.max(0, Math.min(resolved, this.ids.length));
+  }
+}
@@ -0,0 +1,187 @@
+import { isRef, toRaw } from 'vue';
+import type { CheckInItem } from '../desk/desk-core';
+
+/**
+ * Format version of the snapshots produced by `desk.snapshot()`
+ */
+export const DESK_SNAPSHOT_VERSION = 1;
+
+/**
+ * Item as stored in a snapshot
+ */
+export interface DeskSnapshotItem<T = any> {
+  id: string | number;
+  data: T;
+  meta?: Record<string, any>;
+  version: number;
+  timestamp?: number;
+}
+
+/**
+ * Serializable state of a desk, returned by `desk.snapshot()`
+ */
+export interface DeskSnapshot<T = any> {
+  /** Snapshot format (see `DESK_SNAPSHOT_VERSION`) */
+  version: number;
+  deskId: string;
+  /** Items in desk order */
+  items: DeskSnapshotItem<T>[];
+  /** Serializable context values, by key */
+  context?: Record<string, unknown>;
+  /** State returned by the plugins' `serialize()`, by plugin name */
+  plugins?: Record<string, unknown>;
+}
+
+/**
+ * A field that differs between two snapshots of an item
+ */
+export interface DeskFieldChange {
+  /** Path from the item, starting with 'data' or 'meta' (e.g. `['data', 'address', 'city']`) */
+  path: string[];
+  before: unknown;
+  after: unknown;
+}
+
+export interface DeskSnapshotChange<T = any> {
+  id: string | number;
+  before: DeskSnapshotItem<T>;
+  after: DeskSnapshotItem<T>;
+  fields: DeskFieldChange[];
+}
+
+/**
+ * Differences between two snapshots, returned by `diffSnapshots()`
+ */
+export interface DeskSnapshotDiff<T = any> {
+  added: DeskSnapshotItem<T>[];
+  removed: DeskSnapshotItem<T>[];
+  changed: DeskSnapshotChange<T>[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * JSON-safe deep copy of a value. Refs and reactive objects are unwrapped,
+ * dates become ISO strings. Functions, symbols, class instances and circular
+ * references can't be serialized: they are left out (undefined).
+ */
+export const toSerializable = (value: unknown, seen = new WeakSet<object>()): unknown => {
+  const raw = toRaw(isRef(value) ? value.value : value);
+
+  if (raw === null || typeof raw === 'string' || typeof raw === 'boolean') return raw;
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : undefined;
+  if (raw instanceof Date) return raw.toISOString();
+  if (!Array.isArray(raw) && !isPlainObject(raw)) return undefined;
+  if (seen.has(raw)) return undefined;
+
+  seen.add(raw);
+  let copy: unknown;
+  if (Array.isArray(raw)) {
+    // Keep positions: entries that can't be serialized become null, like JSON.stringify
+    copy = raw.map((entry) => toSerializable(entry, seen) ?? null);
+  } else {
+    const object: Record<string, unknown> = {};
+    Object.keys(raw).forEach((key) => {
+      const serialized = toSerializable(raw[key], seen);
+      if (serialized !== undefined) object[key] = serialized;
+    });
+    copy = object;
+  }
+  seen.delete(raw);
+  return copy;
+};
+
+/**
+ * Snapshot entry of an item
+ */
+export const snapshotItem = <T>(item: CheckInItem<T>): DeskSnapshotItem<T> => {
+  const entry: DeskSnapshotItem<T> = {
+    id: item.id,
+    data: toSerializable(item.data) as T,
+    version: item.version,
+  };
+  if (item.meta !== undefined) entry.meta = toSerializable(item.meta) as Record<string, any>;
+  if (item.timestamp !== undefined) entry.timestamp = item.timestamp;
+  return entry;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((entry, index) => isEqual(entry, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+/**
+ * Field-level differences: plain objects are compared key by key,
+ * anything else (arrays included) as a whole
+ */
+const diffFields = (
+  before: unknown,
+  after: unknown,
+  path: string[],
+  changes: DeskFieldChange[]
+) => {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach((key) =>
+      diffFields(before[key], after[key], [...path, key], changes)
+    );
+  } else if (!isEqual(before, after)) {
+    changes.push({ path, before, after });
+  }
+};
+
+/**
+ * Items added, removed and changed from snapshot `a` to snapshot `b`.
+ * Changed items list the fields of `data` and `meta` that differ. Versions,
+ * timestamps and order are not compared.
+ *
+ * @example
+ * ```ts
+ * const before = desk.snapshot();
+ * await desk.update('email', { value: 'new@example.com' });
+ *
+ * const { changed } = diffSnapshots(before, desk.snapshot());
+ * // changed[0].fields: [{ path: ['data', 'value'], before: 'old@…', after: 'new@…' }]
+ * ```
+ */
+export const diffSnapshots = <T = any>(
+  a: DeskSnapshot<T>,
+  b: DeskSnapshot<T>
+): DeskSnapshotDiff<T> => {
+  const previous = new Map(a.items.map((item) => [item.id, item]));
+  const next = new Map(b.items.map((item) => [item.id, item]));
+  const diff: DeskSnapshotDiff<T> = { added: [], removed: [], changed: [] };
+
+  b.items.forEach((after) => {
+    const before = previous.get(after.id);
+    if (!before) {
+      diff.added.push(after);
+      return;
+    }
+    const fields: DeskFieldChange[] = [];
+    diffFields(before.data, after.data, ['data'], fields);
+    diffFields(before.meta, after.meta, ['meta'], fields);
+    if (fields.length > 0) {
+      diff.changed.push({ id: after.id, before, after, fields });
+    }
+  });
+
+  a.items.forEach((before) => {
+    if (!next.has(before.id)) diff.removed.push(before);
+  });
+
+  return diff;
+};
@@ -0,0 +1,258 @@
+import { computed, ref, shallowRef, triggerRef, type ComputedRef, type Ref } from 'vue';
+import type { CheckInItem } from '../desk/desk-core';
+
+/**
+ * One sort criterion of a view
+ */
+export interface DeskViewSort<T = any> {
+  /** Data field (or 'timestamp') to sort on. Without key, `compare` receives the items. */
+  key?: keyof T | 'timestamp';
+  order?: 'asc' | 'desc';
+  /** Custom comparison of the two values (default: `<` / `>`) */
+  compare?: (a: any, b: any) => number;
+}
+
+/**
+ * Options for `desk.view()`
+ */
+export interface DeskViewOptions<T = any> {
+  filter?: (item: CheckInItem<T>) => boolean;
+  /** Criteria applied in order: the next one only breaks ties of the previous ones */
+  sort?: DeskViewSort<T>[];
+  /** Page size (default: no limit) */
+  limit?: number;
+  /** Index of the first item of the page (default: 0) */
+  offset?: number;
+}
+
+/**
+ * Live filtered and sorted view on a desk, returned by `desk.view()`
+ */
+export interface DeskView<T = any> {
+  /** Items of the current page */
+  readonly items: ComputedRef<CheckInItem<T>[]>;
+  /** Number of items matching the filter, all pages included */
+  readonly total: ComputedRef<number>;
+  /** Index of the first item of the page. Writable. */
+  readonly offset: Ref<number>;
+  /** Page size, undefined for no limit. Writable. */
+  readonly limit: Ref<number | undefined>;
+  /** Current page, starting at 1 */
+  readonly page: ComputedRef<number>;
+  readonly pageCount: ComputedRef<number>;
+  /**
+   * Re-evaluate filter and sort for every item.
+   * Only needed when they depend on state outside the items.
+   */
+  refresh: () => void;
+  /** Stop maintaining the view (automatic when created in a component or effect scope) */
+  stop: () => void;
+}
+
+/**
+ * Receives registry changes from the desk: views, groups and aggregations
+ */
+export interface RegistryObserver {
+  /**
+   * @param changed - Ids of the items checked in, updated or checked out (all items if omitted)
+   * @param reordered - The desk's position order changed
+   */
+  sync: (changed?: Array<string | number>, reordered?: boolean) => void;
+}
+
+const valueOf = <T>(item: CheckInItem<T>, key: DeskViewSort<T>['key']) => {
+  if (key === undefined) return item;
+  if (key === 'timestamp') return item.timestamp || 0;
+  return item.data[key as keyof T];
+};
+
+/**
+ * Maintains a view incrementally.
+ *
+ * The desk reports the ids that changed: only those are filtered again, found through
+ * their indexed position and moved to their new place with a binary search instead of
+ * re-sorting everything. Equal items keep the order they entered the view in.
+ * Unsorted views follow the desk's position order: they are searched by desk position,
+ * and only rebuilt when the desk is reordered.
+ */
+export class RegistryView<T = any> implements DeskView<T>, RegistryObserver {
+  public readonly offset: Ref<number>;
+  public readonly limit: Ref<number | undefined>;
+  public readonly items: ComputedRef<CheckInItem<T>[]>;
+  public readonly total: ComputedRef<number>;
+  public readonly page: ComputedRef<number>;
+  public readonly pageCount: ComputedRef<number>;
+
+  /** Every matching item, in view order */
+  private matching = shallowRef<CheckInItem<T>[]>([]);
+  /** Index of each matching item in `matching` */
+  private positions = new Map<string | number, number>();
+  private sorted: boolean;
+  private compare: (a: CheckInItem<T>, b: CheckInItem<T>) => number;
+
+  /**
+   * @param list - Items in desk order
+   * @param indexOf - Desk position of an item
+   */
+  constructor(
+    private registryMap: Map<string | number, CheckInItem<T>>,
+    private list: () => CheckInItem<T>[],
+    private indexOf: (id: string | number) => number,
+    private options: DeskViewOptions<T>,
+    private onStop: (observer: RegistryObserver) => void
+  ) {
+    this.offset = ref(options.offset ?? 0);
+    this.limit = ref(options.limit);
+    this.sorted = !!options.sort?.length;
+    this.compare = options.sort?.length
+      ? this.createCompare(options.sort)
+      : (a, b) => this.indexOf(a.id) - this.indexOf(b.id);
+
+    this.total = computed(() => this.matching.value.length);
+    this.items = computed(() => {
+      const start = this.offset.value;
+      const end = this.limit.value === undefined ? undefined : start + this.limit.value;
+      return this.matching.value.slice(start, end);
+    });
+    this.page = computed(() =>
+      this.limit.value ? Math.floor(this.offset.value / this.limit.value) + 1 : 1
+    );
+    this.pageCount = computed(() =>
+      this.limit.value ? Math.max(1, Math.ceil(this.total.value / this.limit.value)) : 1
+    );
+
+    this.refresh();
+  }
+
+  refresh = (): void => {
+    const matching = this.list().filter((item) => this.matches(item));
+    if (this.sorted) {
+      matching.sort(this.compare);
+    }
+    this.reindex(matching);
+    this.matching.value = matching;
+  };
+
+  stop = (): void => {
+    this.onStop(this);
+  };
+
+  /**
+   * Apply registry changes to the view
+   */
+  sync(changed?: Array<string | number>, reordered = false): void {
+    if (!changed) {
+      this.refresh();
+      return;
+    }
+
+    // Every position in the desk may have moved
+    if (reordered && !this.sorted && this.positions.size > 0) {
+      this.refresh();
+      return;
+    }
+
+    const entries = this.matching.value;
+    const leaving: number[] = [];
+    const pending: CheckInItem<T>[] = [];
+
+    for (const id of new Set(changed)) {
+      const item = this.registryMap.get(id);
+      const matches = !!item && this.matches(item);
+      const index = this.positions.get(id);
+      if (!matches && index === undefined) continue;
+
+      if (index !== undefined) {
+        // A single change that keeps its place doesn't move among equal items
+        if (matches && changed.length === 1) {
+          entries[index] = item!;
+          if (this.isInPlace(entries, index)) {
+            triggerRef(this.matching);
+            return;
+          }
+        }
+        leaving.push(index);
+        this.positions.delete(id);
+      }
+      if (matches) pending.push(item!);
+    }
+
+    if (leaving.length === 0 && pending.length === 0) return;
+
+    // Changed items are all taken out before being put back,
+    // so binary searches never run over an entry that is out of place.
+    // From the end, so the positions left to remove stay valid.
+    let first = entries.length;
+    leaving
+      .sort((a, b) => b - a)
+      .forEach((index) => {
+        entries.splice(index, 1);
+        first = index;
+      });
+    pending.forEach((item) => {
+      const index = this.upperBound(entries, item);
+      entries.splice(index, 0, item);
+      first = Math.min(first, index);
+    });
+
+    this.reindex(entries, first);
+    triggerRef(this.matching);
+  }
+
+  /**
+   * Index the positions of `entries`, from `start` on
+   */
+  private reindex(entries: CheckInItem<T>[], start = 0) {
+    if (start === 0) this.positions.clear();
+    for (let index = start; index < entries.length; index++) {
+      this.positions.set(entries[index]!.id, index);
+    }
+  }
+
+  private matches(item: CheckInItem<T>) {
+    return this.options.filter ? this.options.filter(item) : true;
+  }
+
+  private createCompare(sort: DeskViewSort<T>[]) {
+    return (a: CheckInItem<T>, b: CheckInItem<T>) => {
+      for (const { key, order, compare } of sort) {
+        const aVal: any = valueOf(a, key);
+        const bVal: any = valueOf(b, key);
+        const comparison = compare ? compare(aVal, bVal) : aVal > bVal ? 1 : aVal < bVal ? -1 : 0;
+        if (comparison !== 0) {
+          return order === 'desc' ? -comparison : comparison;
+        }
+      }
+      return 0;
+    };
+  }
+
+  /**
+   * The item at `index` is still between its neighbours
+   */
+  private isInPlace(entries: CheckInItem<T>[], index: number) {
+    const item = entries[index]!;
+    const previous = entries[index - 1];
+    const next = entries[index + 1];
+    return (
+      (!previous || this.compare(previous, item) <= 0) && (!next || this.compare(item, next) <= 0)
+    );
+  }
+
+  /**
+   * Index after the last entry that sorts before or equal to `item`
+   */
+  private upperBound(entries: CheckInItem<T>[], item: CheckInItem<T>) {
+    let low = 0;
+    let high = entries.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.compare(entries[middle]!, item) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,104 @@
+import type { RegistryJournal } from './registry-journal';
+
+/**
+ * Collects the side effects of operations running inside a desk transaction.
+ *
+ * Registry mutations are applied immediately (so reads inside the transaction see them),
+ * while events, DevTools entries and `on*` hooks are deferred until the transaction commits.
+ * On rollback, deferred effects are simply discarded and the journal undoes the mutations.
+ *
+ * With the 'rollback' error policy, a single operation outside of a transaction gets
+ * a scope too, with `deferred` false: its effects run right away.
+ *
+ * A transaction started while another one is open runs in a nested scope, absorbed
+ * by the open one when it completes (see `join()` / `absorb()`).
+ */
+export class TransactionScope {
+  private effects: Array<() => void | Promise<void>> = [];
+  private joined = new Set<Promise<unknown>>();
+
+  public cancelled = false;
+  public reason?: string;
+
+  constructor(
+    /** Registry changes of the scope, to undo them */
+    public journal: RegistryJournal,
+    /** Effects wait for commit */
+    public deferred = true
+  ) {}
+
+  /**
+   * Queue an effect to run after commit
+   */
+  defer(effect: () => void | Promise<void>): void {
+    this.effects.push(effect);
+  }
+
+  /**
+   * Mark the transaction as cancelled (a before-hook returned false)
+   */
+  cancel(reason: string): void {
+    this.cancelled = true;
+    this.reason = reason;
+  }
+
+  /**
+   * Track a nested transaction: the scope waits for it before committing
+   */
+  join<R>(nested: Promise<R>): Promise<R> {
+    const done = () => {
+      this.joined.delete(nested);
+    };
+    this.joined.add(nested);
+    nested.then(done, done);
+    return nested;
+  }
+
+  /**
+   * Wait for the nested transactions still running
+   */
+  async settle(): Promise<void> {
+    while (this.joined.size > 0) {
+      await Promise.allSettled(Array.from(this.joined));
+    }
+  }
+
+  /**
+   * Take over the changes and effects of a completed nested scope
+   */
+  absorb(nested: TransactionScope): void {
+    this.journal.absorb(nested.journal);
+    this.effects.push(...nested.effects);
+    nested.effects = [];
+  }
+
+  /**
+   * Run all deferred effects in the order they were queued, including those of
+   * nested transactions started by the effects themselves
+   */
+  async flush(): Promise<void> {
+    await this.settle();
+    while (this.effects.length > 0) {
+      await this.effects.shift()!();
+      await this.settle();
+    }
+  }
+
+  /**
+   * Drop deferred effects (rollback)
+   */
+  discard(): void {
+    this.effects = [];
+  }
+}
+
+/**
+ * Thrown by transaction operations when a before-hook cancels them.
+ * Caught by `desk.transaction()`, which rolls back and resolves to false.
+ */
+export class TransactionCancelledError extends Error {
+  constructor(reason: string) {
+    super(`[DeskCore] Transaction cancelled: ${reason}`);
+    this.name = 'TransactionCancelledError';
+  }
+}
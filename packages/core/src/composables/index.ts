@@ -2,16 +2,87 @@ export { useCheckIn } from './useCheckIn';
 
 export {
   createDeskCore,
+  createDeskCoreFor,
   type DeskCore,
   type DeskEventType,
   type DeskEventCallback,
+  type DeskEventPayload,
+  type DeskErrorPolicy,
+  type DeskDuplicatePolicy,
+  type DeskErrorInfo,
+  type DeskErrorPayload,
+  type DeskEventMap,
+  type DeskEvents,
+  type DeskEventKey,
+  type DeskEventPayloadOf,
   type CheckInItem,
   type DeskCoreOptions,
+  type DeskTransaction,
+  type DeskOperationOptions,
+  type DeskCheckInOptions,
+  type DeskUpdateOptions,
+  type DeskUpdateResult,
+  type DeskTreeMatch,
+  type DeskTransferOptions,
+  type DeskTransfer,
+  type DeskOperation,
+  type DeskMiddleware,
+  type DeskMiddlewareContext,
+  type DeskPlugins,
+  type DeskWithPlugins,
 } from './desk/desk-core';
 
-export { provideDesk, type DeskWithContext } from './desk/desk-injection';
+export type { DeskIndexDefinition } from './helpers/registry-index';
+export type { DeskOrderMode } from './helpers/component-order';
+export type { DeskView, DeskViewOptions, DeskViewSort } from './helpers/registry-view';
+export {
+  sum,
+  count,
+  avg,
+  min,
+  max,
+  type DeskAggregator,
+  type DeskAccumulator,
+  type DeskAggregateSpec,
+  type DeskAggregateValues,
+  type DeskAggregateField,
+  type DeskAggregation,
+  type DeskGroups,
+} from './helpers/registry-aggregate';
+export {
+  diffSnapshots,
+  DESK_SNAPSHOT_VERSION,
+  type DeskSnapshot,
+  type DeskSnapshotItem,
+  type DeskSnapshotDiff,
+  type DeskSnapshotChange,
+  type DeskFieldChange,
+} from './helpers/registry-snapshot';
+export { PluginDependencyError } from './helpers/plugin-graph';
+export { HookTimeoutError } from './helpers/hook-runner';
+
+export { provideDesk, type DeskWithContext, type ProvidedDesk } from './desk/desk-injection';
+
+export { defineDesk, type DefinedDesk } from './desk/desk-define';
+
+export { createDeskSSR, DESK_SSR_KEY, type DeskSSR, type DeskSSRState } from './desk/desk-ssr';
+
+export { useDeskOrThrow, setStrictMode, isStrictMode, DeskNotFoundError } from './desk/desk-lookup';
 
 export { checkInToDesk, type CheckInOptions, type CheckInResult } from './desk/desk-child';
 
-export { generateId, memoizedId, clearIdCache, isCheckedIn, getRegistry } from './useCheckIn';
-export type { CheckInPlugin, CheckInPluginMethods, CheckInPluginComputed } from './types';
+export { checkInToDesks, type DeskCheckInEntry, type MultiCheckInResult } from './desk/desk-multi';
+
+export { useDeskItem } from './desk/desk-item';
+
+export { generateId, memoizedId, clearIdCache } from './desk/desk-id';
+export { isCheckedIn, getRegistry } from './useCheckIn';
+export type {
+  CheckInPlugin,
+  CheckInPluginMethods,
+  CheckInPluginComputed,
+  CheckInPluginExports,
+  CheckInPluginsExports,
+  CheckInPluginEvents,
+  CheckInPluginsEvents,
+} from './types';
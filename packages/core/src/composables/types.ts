@@ -1,4 +1,4 @@
-import type { DeskCore } from './desk/desk-core';
+import type { DeskCore, DeskMiddleware, DeskTransfer } from './desk/desk-core';
 
 export type CheckInPluginMethod<T = any> = (...args: (T | any)[]) => any | T;
 export type CheckInPluginComputedProp<T = any> = () => any | T;
@@ -45,6 +45,7 @@ export interface CheckInPlugin<
   T = any,
   M extends object = CheckInPluginMethods<T>,
   C extends object = CheckInPluginComputed<T>,
+  E extends Record<string, any> = {},
 > {
   /** Unique plugin name */
   name: string;
@@ -52,28 +53,57 @@ export interface CheckInPlugin<
   /** Optional version */
   version?: string;
 
+  /**
+   * Plugins that must be installed on the same desk.
+   * They run before this one. Missing plugins make the desk throw.
+   */
+  requires?: string[];
+
+  /** Plugins this one must run before, when they are installed */
+  before?: string[];
+
+  /** Plugins this one must run after, when they are installed */
+  after?: string[];
+
+  /** Plugins that can't be installed on the same desk as this one */
+  conflicts?: string[];
+
   /**
    * Called when the plugin is installed on a desk.
-   * Return a cleanup function to be called when the desk is cleared.
+   * Return a cleanup function to be called when the desk is cleared
+   * or the plugin is removed with `desk.unuse()`.
    *
    * @required This is now required for proper plugin lifecycle management.
    */
-  install: (desk: DeskCore<T>) => undefined | (() => void);
+  install: (desk: DeskCore<T, any, E>) => undefined | (() => void);
+
+  /**
+   * Milliseconds an async hook of this plugin may take before failing with
+   * a `HookTimeoutError`. Overrides the desk's `hookTimeout`.
+   */
+  hookTimeout?: number;
 
   /**
    * Called before an item is checked in.
    * Return false to cancel the check-in.
+   * `signal` aborts with the operation or when the hook times out.
    */
   onBeforeCheckIn?: (
     id: string | number,
     data: T,
-    desk: DeskCore<T>
+    desk: DeskCore<T>,
+    signal: AbortSignal
   ) => boolean | undefined | Promise<boolean | undefined>;
 
   /**
    * Called after an item is successfully checked in.
    */
-  onCheckIn?: (id: string | number, data: T, desk: DeskCore<T>) => void | Promise<void>;
+  onCheckIn?: (
+    id: string | number,
+    data: T,
+    desk: DeskCore<T>,
+    signal: AbortSignal
+  ) => void | Promise<void>;
 
   /**
    * Called before an item is updated.
@@ -82,13 +112,19 @@ export interface CheckInPlugin<
   onBeforeUpdate?: (
     id: string | number,
     data: Partial<T>,
-    desk: DeskCore<T>
+    desk: DeskCore<T>,
+    signal: AbortSignal
   ) => boolean | undefined | Promise<boolean | undefined>;
 
   /**
    * Called after an item is successfully updated.
    */
-  onUpdate?: (id: string | number, data: Partial<T>, desk: DeskCore<T>) => void | Promise<void>;
+  onUpdate?: (
+    id: string | number,
+    data: Partial<T>,
+    desk: DeskCore<T>,
+    signal: AbortSignal
+  ) => void | Promise<void>;
 
   /**
    * Called before an item is checked out.
@@ -96,13 +132,44 @@ export interface CheckInPlugin<
    */
   onBeforeCheckOut?: (
     id: string | number,
-    desk: DeskCore<T>
+    desk: DeskCore<T>,
+    signal: AbortSignal
   ) => boolean | undefined | Promise<boolean | undefined>;
 
   /**
    * Called after an item is successfully checked out.
    */
-  onCheckOut?: (id: string | number, desk: DeskCore<T>) => void | Promise<void>;
+  onCheckOut?: (
+    id: string | number,
+    desk: DeskCore<T>,
+    signal: AbortSignal
+  ) => void | Promise<void>;
+
+  /**
+   * Called after an item moved between desks with `transferTo()`, on both desks.
+   * Without this hook, the plugin gets `onCheckOut` (source) / `onCheckIn` (target) instead.
+   */
+  onTransfer?: (
+    transfer: DeskTransfer<T>,
+    desk: DeskCore<T>,
+    signal: AbortSignal
+  ) => void | Promise<void>;
+
+  /**
+   * State to store in `desk.snapshot()`. Must be serializable.
+   */
+  serialize?: (desk: DeskCore<T>) => unknown;
+
+  /**
+   * Restores the state returned by `serialize()`, on `desk.restore()`
+   */
+  hydrate?: (state: unknown, desk: DeskCore<T>) => void;
+
+  /**
+   * Wraps desk operations (checkIn, update, checkOut, switch, clear).
+   * Plugin middleware runs in plugin order, outside the desk's own `middleware`.
+   */
+  middleware?: DeskMiddleware<T>;
 
   /**
    * Custom methods to add to the desk.
@@ -116,3 +183,50 @@ export interface CheckInPlugin<
    */
   computed?: C;
 }
+
+/**
+ * Declared members only: drops the index signatures inherited from
+ * `CheckInPluginMethods` / `CheckInPluginComputed`
+ */
+type DeclaredMembers<O> = {
+  [K in keyof O as string extends K ? never : number extends K ? never : K]: O[K];
+};
+
+type UnionToIntersection<U> = (U extends any ? (arg: U) => void : never) extends (
+  arg: infer I
+) => void
+  ? I
+  : never;
+
+/**
+ * Members a plugin adds to the desk: its methods, and its computed getters as read-only values
+ */
+export type CheckInPluginExports<P> = P extends { methods?: infer M; computed?: infer C }
+  ? DeclaredMembers<NonNullable<M>> & {
+      readonly [K in keyof DeclaredMembers<NonNullable<C>>]: DeclaredMembers<
+        NonNullable<C>
+      >[K] extends (...args: any[]) => infer R
+        ? R
+        : never;
+    }
+  : {};
+
+/**
+ * Events a plugin emits (its `E` type parameter)
+ */
+export type CheckInPluginEvents<P> =
+  P extends CheckInPlugin<any, any, any, infer E> ? (0 extends 1 & E ? {} : E) : {};
+
+/**
+ * Members added to the desk by a list of plugins
+ */
+export type CheckInPluginsExports<TPlugins extends readonly unknown[]> = UnionToIntersection<
+  CheckInPluginExports<TPlugins[number]>
+>;
+
+/**
+ * Events emitted by a list of plugins
+ */
+export type CheckInPluginsEvents<TPlugins extends readonly unknown[]> = UnionToIntersection<
+  CheckInPluginEvents<TPlugins[number]>
+>;
@@ -2,7 +2,17 @@
  * VueAirport - Generic check-in system for parent/child component registration.
  */
 
-import { computed, onUnmounted, type ComputedRef, type Ref, type InjectionKey } from 'vue';
+import {
+  computed,
+  inject,
+  hasInjectionContext,
+  onMounted,
+  onUnmounted,
+  getCurrentInstance,
+  type ComputedRef,
+  type Ref,
+  type InjectionKey,
+} from 'vue';
 
 import {
   createDeskCore,
@@ -11,97 +21,27 @@ import {
   type DeskEventCallback,
   type CheckInItem,
   type DeskCoreOptions,
+  type DeskPlugins,
 } from './desk/desk-core';
-import { provideDesk, type DeskWithContext } from './desk/desk-injection';
-import { checkInToDesk, type CheckInOptions, type CheckInResult } from './desk/desk-child';
+import { provideDesk, type DeskWithContext, type ProvidedDesk } from './desk/desk-injection';
+import {
+  checkInToDesk,
+  isClaimed,
+  type CheckInOptions,
+  type CheckInResult,
+} from './desk/desk-child';
+import {
+  checkInToDesks,
+  type DeskCheckInEntry,
+  type MultiCheckInResult,
+} from './desk/desk-multi';
+import { trackCreatedDesk, untrackInstance } from './desk/desk-hierarchy';
+import { DESK_SSR_KEY } from './desk/desk-ssr';
+import { generateId, memoizedId, clearIdCache } from './desk/desk-id';
 
 // Re-export types
 export type { DeskEventType, DeskEventCallback, CheckInItem, CheckInOptions, DeskCore };
 
-// WeakMap for generating stable IDs based on component instance
-const instanceIdMap = new WeakMap<object, string>();
-// Map for custom IDs provided by user
-const customIdMap = new Map<string, string>();
-let instanceCounter = 0;
-
-/**
- * Generates a cryptographically secure unique ID.
- * Uses crypto.randomUUID if available, otherwise crypto.getRandomValues.
- * Falls back to timestamp + Math.random for legacy environments.
- */
-export const generateId = (prefix = 'item'): string => {
-  // Try crypto.randomUUID if available (modern browser + Node 19+)
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return `${prefix}-${crypto.randomUUID()}`;
-  }
-
-  // Otherwise use crypto.getRandomValues (nearly universal)
-  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
-    const array = new Uint8Array(16);
-    crypto.getRandomValues(array);
-    const id = Array.from(array, (b) => b.toString(16).padStart(2, '0')).join('');
-    return `${prefix}-${id}`;
-  }
-
-  // Ultimate fallback for very old environments
-  const isDev = typeof process !== 'undefined' && process.env?.NODE_ENV === 'development';
-  if (isDev) {
-    console.warn(
-      '[useCheckIn] crypto API not available, using Math.random fallback. ' +
-        'Consider upgrading to a modern environment.'
-    );
-  }
-  const timestamp = Date.now().toString(36);
-  const random = Math.random().toString(36).substring(2, 15);
-  return `${prefix}-${timestamp}-${random}`;
-};
-
-/**
- * Generates a memoized ID for a component.
- * Memoizes IDs based on instance or custom ID to ensure stability across remounts.
- */
-export const memoizedId = (
-  instanceOrId: object | string | number | null | undefined,
-  prefix = 'item'
-): string => {
-  // Case 1: It's a string or number = custom ID provided by user
-  if (typeof instanceOrId === 'string' || typeof instanceOrId === 'number') {
-    const key = `${prefix}-${instanceOrId}`;
-    let id = customIdMap.get(key);
-    if (!id) {
-      id = String(instanceOrId);
-      customIdMap.set(key, id);
-    }
-    return id;
-  }
-
-  // Case 2: It's an object = Vue instance (getCurrentInstance())
-  if (instanceOrId && typeof instanceOrId === 'object') {
-    let id = instanceIdMap.get(instanceOrId);
-    if (!id) {
-      id = `${prefix}-${++instanceCounter}`;
-      instanceIdMap.set(instanceOrId, id);
-    }
-    return id;
-  }
-
-  // Case 3: null/undefined = cryptographically secure generation with warning
-  return generateId(prefix);
-};
-
-/**
- * Clears the memoization cache for custom IDs.
- * Useful for cleanup after major route changes or in long-running SPAs.
- * Note: instanceIdMap (WeakMap) is auto-cleaned by garbage collection.
- */
-export const clearIdCache = (resetCounter = false) => {
-  customIdMap.clear();
-
-  if (resetCounter) {
-    instanceCounter = 0;
-  }
-};
-
 /**
  * Computed helper to check if a specific ID is checked in
  */
@@ -132,6 +72,9 @@ export const getRegistry = <T = any, TContext extends Record<string, any> = {}>(
  * - desk-core.ts: Registry, events, plugins (optimized for performance)
  * - desk-di.ts: Dependency injection (simplified Symbol-based keys)
  * - desk-child.ts: Child check-in logic (async protection, watchers)
+ * - desk-define.ts: App-level desks defined outside components
+ * - desk-lookup.ts: Desk lookup by key or id, strict diagnostics
+ * - desk-multi.ts: Check-in of one child into several desks
  *
  * Performance optimizations:
  * - Hybrid registry (Map + shallowRef) for O(1) updates
@@ -156,23 +99,53 @@ export const getRegistry = <T = any, TContext extends Record<string, any> = {}>(
  * })
  * ```
  */
-export const useCheckIn = <T = any, TContext extends Record<string, any> = {}>() => {
+export const useCheckIn = <
+  T = any,
+  TContext extends Record<string, any> = {},
+  TEvents extends Record<string, any> = {},
+>() => {
   /**
    * Creates a check-in desk and provides it to children.
    * Uses Symbol-based dependency injection.
    */
-  const createDesk = (
-    injectionKey: InjectionKey<DeskWithContext<T, TContext>> = Symbol('CheckInDesk'),
-    options?: DeskCoreOptions<T> & { context?: TContext }
+  const createDesk = <TPlugins extends DeskPlugins<T> = DeskPlugins<T>>(
+    injectionKey: InjectionKey<DeskWithContext<T, TContext, TEvents>> = Symbol('CheckInDesk'),
+    options?: DeskCoreOptions<T> & { context?: TContext; plugins?: TPlugins }
   ) => {
     // Extract deskId from Symbol description or options
     const deskId = options?.deskId || (injectionKey as any).description || 'desk';
 
+    // With SSR, start from the state the server rendered this desk with
+    const ssr = hasInjectionContext() ? inject(DESK_SSR_KEY, null) : null;
+    const ssrState = options?.initialState ? undefined : ssr?.take(deskId);
+    const initialState = options?.initialState ?? ssrState;
+
     // Create desk core with deskId
-    const deskCore = createDeskCore<T, TContext>({ ...options, deskId });
+    const deskCore = createDeskCore<T, TContext, TEvents>({ ...options, deskId, initialState });
+    ssr?.register(deskCore);
+
+    // Without an explicit parent, nest under the desk this component checks into
+    const instance = getCurrentInstance();
+    if (options?.parent === undefined) {
+      trackCreatedDesk(instance, deskCore);
+    }
+
+    // Children are set up before this component mounts: server-rendered items
+    // none of them claimed belong to components the client no longer renders
+    if (ssrState && instance) {
+      onMounted(() => {
+        const orphans = ssrState.items
+          .map(({ id }) => id)
+          .filter((id) => deskCore.isHydrated(id) && !isClaimed(deskCore, id));
+        if (orphans.length > 0) {
+          // Failures are reported by the desk (events, devtools, error policy)
+          deskCore.checkOutMany(orphans).catch(() => undefined);
+        }
+      });
+    }
 
     // Provide to children with context
-    const { desk, injectionKey: key } = provideDesk<T, TContext>(
+    const { desk, injectionKey: key } = provideDesk<T, TContext, TEvents>(
       injectionKey,
       deskCore,
       options?.context,
@@ -185,39 +158,67 @@ export const useCheckIn = <T = any, TContext extends Record<string, any> = {}>()
         console.log(`[useCheckIn] Desk unmounting: ${deskId}`);
       }
       deskCore.destroy();
+      ssr?.unregister(deskCore);
+      untrackInstance(instance);
     });
 
+    // Typed from the plugins array: children injecting `injectionKey` get the same type
     return {
-      desk,
-      injectionKey: key,
+      desk: desk as ProvidedDesk<T, TContext, TEvents, TPlugins>,
+      injectionKey: key as InjectionKey<ProvidedDesk<T, TContext, TEvents, TPlugins>>,
     };
   };
 
   /**
    * Checks in to a desk (child component registers itself).
+   * Given several desks, checks in to all of them with the same options (see `checkInMany()`).
    */
-  const checkIn = (
-    parentDeskOrKey:
-      | (DeskCore<T> & TContext)
-      | InjectionKey<DeskCore<T> & TContext>
-      | string
-      | null
-      | undefined,
+  function checkIn<TDesk extends DeskCore<T, any, any> = DeskCore<T>>(
+    parentDeskOrKey: TDesk | InjectionKey<TDesk> | string | null | undefined,
+    checkInOptions?: CheckInOptions<T, TContext>
+  ): CheckInResult<T, TContext, TDesk & TContext>;
+  function checkIn(
+    parentDesksOrKeys: DeskCheckInEntry<T, TContext>['key'][],
     checkInOptions?: CheckInOptions<T, TContext>
-  ): CheckInResult<T, TContext> => {
-    return checkInToDesk<T, TContext>(parentDeskOrKey as any, checkInOptions);
+  ): MultiCheckInResult<T, TContext>;
+  function checkIn(
+    parentDeskOrKey: any,
+    checkInOptions?: CheckInOptions<T, TContext>
+  ): CheckInResult<T, TContext, any> | MultiCheckInResult<T, TContext> {
+    if (Array.isArray(parentDeskOrKey)) {
+      return checkInMany(
+        parentDeskOrKey.map((key) => ({ key })),
+        checkInOptions
+      );
+    }
+    return checkInToDesk<T, TContext>(parentDeskOrKey, checkInOptions);
+  }
+
+  /**
+   * Checks in to several desks, with per-desk options and data mappers.
+   * One handle checks in, updates and checks out of all of them.
+   */
+  const checkInMany = (
+    entries: DeskCheckInEntry<T, TContext>[],
+    sharedOptions?: CheckInOptions<T, TContext>
+  ): MultiCheckInResult<T, TContext> => {
+    return checkInToDesks<T, TContext>(entries, sharedOptions);
   };
 
   /**
-   * Creates a standalone desk without injection (for local/testing usage)
+   * Creates a standalone desk without injection (for local/testing usage).
+   * Typed from the plugins array, like `createDesk()`.
    */
-  const standaloneDesk = (options?: DeskCoreOptions<T>) => {
-    return createDeskCore<T>(options);
+  const standaloneDesk = <TPlugins extends DeskPlugins<T> = DeskPlugins<T>>(
+    options?: DeskCoreOptions<T> & { plugins?: TPlugins }
+  ) => {
+    return createDeskCore<T, {}, TEvents, TPlugins>(options);
   };
 
   return {
     createDesk,
     checkIn,
+    checkInMany,
     generateId,
     memoizedId,
     standaloneDesk,
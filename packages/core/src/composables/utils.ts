@@ -1,3 +1,6 @@
+export const isDev = () =>
+  typeof process !== 'undefined' && process.env?.NODE_ENV === 'development';
+
 export const NoOp = (..._args: any[]) => {};
 
 export const Debug = (message: string, ...args: any[]) => {
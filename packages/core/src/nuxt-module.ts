@@ -0,0 +1,28 @@
+import { defineNuxtModule, addPlugin, createResolver } from '@nuxt/kit';
+
+export interface ModuleOptions {
+  /** Serialize desks rendered on the server and hydrate them on the client */
+  ssr: boolean;
+}
+
+export default defineNuxtModule<ModuleOptions>({
+  meta: {
+    name: 'vue-airport',
+    configKey: 'vueAirport',
+  },
+  defaults: {
+    ssr: true,
+  },
+  setup(options: ModuleOptions) {
+    if (!options.ssr) {
+      return;
+    }
+
+    const resolver = createResolver(import.meta.url);
+
+    // Add plugin - will be wrapped in defineNuxtPlugin by Nuxt
+    addPlugin({
+      src: resolver.resolve('./nuxt'),
+    });
+  },
+});
@@ -0,0 +1,19 @@
+import { defineNuxtPlugin } from '#app';
+import { createDeskSSR, type DeskSSRState } from '.';
+
+/**
+ * Nuxt plugin for vue-airport SSR
+ * Auto-loaded by the Nuxt module: desks are serialized in the payload on the server
+ * and hydrated from it on the client
+ */
+export default defineNuxtPlugin((nuxtApp) => {
+  if (typeof window === 'undefined') {
+    const ssr = createDeskSSR();
+    nuxtApp.vueApp.use(ssr);
+    nuxtApp.hook('app:rendered', () => {
+      nuxtApp.payload.vueAirport = ssr.serialize();
+    });
+  } else {
+    nuxtApp.vueApp.use(createDeskSSR(nuxtApp.payload.vueAirport as DeskSSRState | undefined));
+  }
+});
@@ -0,0 +1,12 @@
+declare module '#app' {
+  import type { App } from 'vue';
+
+  export interface NuxtApp {
+    vueApp: App;
+    payload: Record<string, any>;
+    hook: (name: string, callback: (...args: any[]) => void | Promise<void>) => void;
+    [key: string]: any;
+  }
+
+  export function defineNuxtPlugin(plugin: (nuxtApp: NuxtApp) => void | Promise<void>): any;
+}
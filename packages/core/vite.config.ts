@@ -14,13 +14,17 @@ export default defineConfig({
   ],
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        'vue-airport': resolve(__dirname, 'src/index.ts'),
+        nuxt: resolve(__dirname, 'src/nuxt.ts'),
+        'nuxt-module': resolve(__dirname, 'src/nuxt-module.ts'),
+      },
       name: 'VueAirport',
       formats: ['es', 'cjs'],
-      fileName: (format) => `vue-airport.${format === 'es' ? 'mjs' : 'cjs'}`,
+      fileName: (format, entryName) => `${entryName}.${format === 'es' ? 'mjs' : 'cjs'}`,
     },
     rollupOptions: {
-      external: ['vue'],
+      external: ['vue', '@nuxt/kit', '#app'],
       output: {
         globals: {
           vue: 'Vue',
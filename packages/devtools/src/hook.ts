@@ -25,6 +25,7 @@ export interface CheckInDevToolsHook {
     context?: Record<string, unknown>
   ): void;
   updateContext(deskId: string, context: Record<string, unknown>): void;
+  updateMetadata(deskId: string, metadata: Record<string, unknown>): void;
   unregisterDesk(deskId: string): void;
 }
 
@@ -49,6 +50,12 @@ export function attachGlobalHook(app: App) {
         desk.context = context;
       }
     },
+    updateMetadata(deskId: string, metadata: Record<string, unknown>) {
+      const desk = desks.get(deskId);
+      if (desk) {
+        desk.metadata = { ...desk.metadata, ...metadata };
+      }
+    },
     emit(event: AirportEvent) {
       this.events.push(event);
       handlers.forEach((handler) => handler(event));
@@ -84,6 +91,33 @@ export function attachGlobalHook(app: App) {
               desk.metadata.lastSwitch = event.timestamp;
             }
             break;
+          case 'move':
+          case 'reorder':
+            if (desk.metadata) {
+              desk.metadata.lastMove = event.timestamp;
+            }
+            break;
+          case 'batch': {
+            // One event for the whole bulk operation: count every item
+            const count = (event.data?.ids as unknown[] | undefined)?.length || 0;
+            if (event.data?.operation === 'checkIn') {
+              desk.stats.totalCheckIns += count;
+              if (desk.metadata) desk.metadata.lastCheckIn = event.timestamp;
+            } else if (event.data?.operation === 'checkOut') {
+              desk.stats.totalCheckOuts += count;
+              if (desk.metadata) desk.metadata.lastCheckOut = event.timestamp;
+            } else if (event.data?.operation === 'update') {
+              desk.stats.totalUpdates += count;
+              if (desk.metadata) desk.metadata.lastUpdate = event.timestamp;
+            }
+            break;
+          }
+          case 'transfer':
+            // Recorded on both desks
+            if (desk.metadata) {
+              desk.metadata.lastTransfer = event.timestamp;
+            }
+            break;
         }
       }
     },
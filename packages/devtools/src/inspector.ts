@@ -1,5 +1,5 @@
 import { INSPECTOR_ID, ICONS, COLORS } from './constants';
-import { getGlobalHook } from './hook';
+import { getGlobalHook, type DeskRegistryState } from './hook';
 
 interface InspectorNodeTag {
   label: string;
@@ -7,6 +7,13 @@ interface InspectorNodeTag {
   backgroundColor: number;
 }
 
+interface InspectorTreeNode {
+  id: string;
+  label: string;
+  children?: InspectorTreeNode[];
+  tags?: InspectorNodeTag[];
+}
+
 export function setupInspector(api: any) {
   // Add inspector
   api.addInspector({
@@ -53,12 +60,7 @@ export function setupInspector(api: any) {
   }
 }
 
-function getRegistryTree(): Array<{
-  id: string;
-  label: string;
-  children?: unknown[];
-  tags?: InspectorNodeTag[];
-}> {
+function getRegistryTree(): InspectorTreeNode[] {
   const hook = getGlobalHook();
   if (!hook || hook.desks.size === 0) {
     return [
@@ -76,8 +78,17 @@ function getRegistryTree(): Array<{
     ];
   }
 
-  return Array.from(hook.desks.values()).map((desk) => {
+  const desks = Array.from(hook.desks.values());
+
+  // Nested desks are rendered under their parent, next to its items
+  const isRoot = (desk: DeskRegistryState) => {
+    const parentId = desk.metadata?.parentId;
+    return !parentId || !hook.desks.has(String(parentId));
+  };
+
+  const toNode = (desk: DeskRegistryState): InspectorTreeNode => {
     const childCount = desk.registry.size;
+    const subDesks = desks.filter((other) => other.metadata?.parentId === desk.deskId);
 
     return {
       id: desk.deskId,
@@ -89,21 +100,26 @@ function getRegistryTree(): Array<{
           backgroundColor: childCount > 0 ? COLORS.checkIn : 0x999999,
         },
       ],
-      children: Array.from(desk.registry.entries()).map(([id, item]) => ({
-        id: `${desk.deskId}:${id}`,
-        label: item.meta?.label ? String(item.meta.label) : `Item: ${id}`,
-        tags: item.meta?.active
-          ? [
-              {
-                label: 'active',
-                textColor: 0xffffff,
-                backgroundColor: COLORS.update,
-              },
-            ]
-          : undefined,
-      })),
+      children: [
+        ...Array.from(desk.registry.entries()).map(([id, item]) => ({
+          id: `${desk.deskId}:${id}`,
+          label: item.meta?.label ? String(item.meta.label) : `Item: ${id}`,
+          tags: item.meta?.active
+            ? [
+                {
+                  label: 'active',
+                  textColor: 0xffffff,
+                  backgroundColor: COLORS.update,
+                },
+              ]
+            : undefined,
+        })),
+        ...subDesks.map(toNode),
+      ],
     };
-  });
+  };
+
+  return desks.filter(isRoot).map(toNode);
 }
 
 function getNodeState(nodeId: string) {
@@ -139,6 +155,7 @@ function getNodeState(nodeId: string) {
       'Basic Info': [
         { key: 'id', value: childId, editable: false },
         { key: 'type', value: 'child', editable: false },
+        { key: 'version', value: item.version ?? 'N/A', editable: false },
         {
           key: 'checked in at',
           value: item.timestamp ? new Date(item.timestamp).toLocaleString() : 'N/A',
@@ -232,10 +249,10 @@ function getNodeState(nodeId: string) {
       result.Lifecycle = lifecycleData;
     }
 
-    // Plugins
+    // Plugins, in execution order
     if (desk.metadata?.plugins && Array.isArray(desk.metadata.plugins)) {
-      result.Plugins = (desk.metadata.plugins as string[]).map((name) => ({
-        key: name,
+      result.Plugins = (desk.metadata.plugins as string[]).map((name, index) => ({
+        key: `${index + 1}. ${name}`,
         value: '✓ installed',
         editable: false,
       }));
@@ -267,6 +284,8 @@ function getNodeState(nodeId: string) {
             'lastCheckOut',
             'lastUpdate',
             'lastSwitch',
+            'lastMove',
+            'lastTransfer',
             'plugins',
             'context',
             'label',
@@ -34,8 +34,15 @@ function addTimelineEvent(api: any, event: AirportEvent) {
     'check-out': COLORS.checkOut,
     update: COLORS.update,
     switch: COLORS.switch,
+    move: COLORS.switch,
+    reorder: COLORS.switch,
+    transfer: COLORS.switch,
     'plugin-execute': COLORS.plugin,
+    'plugin-error': COLORS.error,
     clear: COLORS.warning,
+    batch: COLORS.update,
+    restore: COLORS.warning,
+    rollback: COLORS.error,
   };
 
   const titleMap: Record<string, string> = {
@@ -43,16 +50,36 @@ function addTimelineEvent(api: any, event: AirportEvent) {
     'check-out': '✗ Check Out',
     update: '↻ Update',
     switch: '⇄ Switch',
+    move: '↕ Move',
+    reorder: '⇅ Reorder',
+    transfer: '➜ Transfer',
     'plugin-execute': '⚡ Plugin',
+    'plugin-error': '⚠ Plugin Error',
     clear: '🗑 Clear',
+    batch: '⧉ Batch',
+    restore: '⟲ Restore',
+    rollback: '↶ Rollback',
   };
 
   // Build subtitle with more context
   let subtitle = '';
-  if (event.childId !== undefined) {
+  if (event.type === 'transfer') {
+    subtitle =
+      event.deskId === event.meta?.sourceDesk
+        ? `ID: ${event.childId} → ${event.meta?.targetDesk}`
+        : `ID: ${event.childId} ← ${event.meta?.sourceDesk}`;
+  } else if (event.type === 'plugin-error') {
+    subtitle = `${event.pluginName}.${event.data?.hook}: ${event.data?.message}`;
+  } else if (event.childId !== undefined) {
     subtitle = `ID: ${event.childId}`;
   } else if (event.pluginName) {
     subtitle = `Plugin: ${event.pluginName}`;
+  } else if (event.type === 'batch') {
+    subtitle = `${event.data?.operation} × ${(event.data?.ids as unknown[])?.length}`;
+  } else if (event.type === 'restore') {
+    subtitle = `+${event.data?.added} −${event.data?.removed} ~${event.data?.changed}`;
+  } else if (event.type === 'rollback') {
+    subtitle = `${(event.data?.ids as unknown[])?.length} item(s) restored`;
   } else if (event.type === 'clear') {
     subtitle = `Cleared ${event.registrySize || 0} items`;
   } else {
@@ -105,7 +132,11 @@ function addTimelineEvent(api: any, event: AirportEvent) {
         color: colorMap[event.type] || COLORS.checkIn,
       },
       logType:
-        event.type === 'clear' ? 'warning' : event.type === 'check-out' ? 'error' : 'default',
+        event.type === 'clear'
+          ? 'warning'
+          : event.type === 'check-out' || event.type === 'plugin-error'
+            ? 'error'
+            : 'default',
     },
   });
 }
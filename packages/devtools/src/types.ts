@@ -1,5 +1,18 @@
 export interface AirportEvent {
-  type: 'check-in' | 'check-out' | 'update' | 'switch' | 'plugin-execute' | 'clear';
+  type:
+    | 'check-in'
+    | 'check-out'
+    | 'update'
+    | 'switch'
+    | 'move'
+    | 'reorder'
+    | 'transfer'
+    | 'plugin-execute'
+    | 'plugin-error'
+    | 'clear'
+    | 'batch'
+    | 'restore'
+    | 'rollback';
   timestamp: number;
   deskId: string;
   childId?: string | number;
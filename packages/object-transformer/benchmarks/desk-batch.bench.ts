@@ -0,0 +1,77 @@
+import { bench, describe } from 'vitest';
+import { createDeskCore } from 'vue-airport';
+
+interface Row {
+  label: string;
+  value: number;
+}
+
+const rows = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    id: i,
+    data: { label: `Row ${i}`, value: i % 100 },
+  }));
+
+const smallRows = rows(100);
+const largeRows = rows(1000);
+
+// A sorted view makes every sync pay for the registry size, as in real apps
+const createDesk = () => {
+  const desk = createDeskCore<Row>();
+  desk.view({ sort: [{ key: 'value' }] });
+  return desk;
+};
+
+describe('Desk Bulk Operations', () => {
+  bench('Check-in: one by one (100 items)', async () => {
+    const desk = createDesk();
+    for (const { id, data } of smallRows) {
+      await desk.checkIn(id, data);
+    }
+  });
+
+  bench('Check-in: checkInMany (100 items)', async () => {
+    await createDesk().checkInMany(smallRows);
+  });
+
+  bench('Check-in: one by one (1,000 items)', async () => {
+    const desk = createDesk();
+    for (const { id, data } of largeRows) {
+      await desk.checkIn(id, data);
+    }
+  });
+
+  bench('Check-in: checkInMany (1,000 items)', async () => {
+    await createDesk().checkInMany(largeRows);
+  });
+
+  bench('Update: one by one (1,000 items)', async () => {
+    const desk = createDesk();
+    await desk.checkInMany(largeRows);
+    for (const { id } of largeRows) {
+      await desk.update(id, { value: 100 - (Number(id) % 100) });
+    }
+  });
+
+  bench('Update: updateMany (1,000 items)', async () => {
+    const desk = createDesk();
+    await desk.checkInMany(largeRows);
+    await desk.updateMany(
+      largeRows.map(({ id }) => ({ id, data: { value: 100 - (Number(id) % 100) } }))
+    );
+  });
+
+  bench('Check-out: one by one (1,000 items)', async () => {
+    const desk = createDesk();
+    await desk.checkInMany(largeRows);
+    for (const { id } of largeRows) {
+      await desk.checkOut(id);
+    }
+  });
+
+  bench('Check-out: checkOutMany (1,000 items)', async () => {
+    const desk = createDesk();
+    await desk.checkInMany(largeRows);
+    await desk.checkOutMany(largeRows.map(({ id }) => id));
+  });
+});
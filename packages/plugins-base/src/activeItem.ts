@@ -57,7 +57,12 @@ export interface ActiveItemPluginComputed extends CheckInPluginComputed {
  * Provides methods and computed properties for managing an active item in the desk.
  */
 export interface ActiveItemPlugin<T>
-  extends CheckInPlugin<T, ActiveItemPluginMethods<T>, ActiveItemPluginComputed>,
+  extends CheckInPlugin<
+      T,
+      ActiveItemPluginMethods<T>,
+      ActiveItemPluginComputed,
+      ActiveItemPluginEvents<T>
+    >,
     ActiveItemPluginRefs {
   methods: ActiveItemPluginMethods<T>;
   computed: ActiveItemPluginComputed;
@@ -68,7 +73,7 @@ export interface ActiveItemPlugin<T>
  * Adds methods: setActive, getActive, clearActive
  * Adds computed: hasActive
  * Adds property: activeId
- * Emits event: 'active-changed'
+ * Emits event: 'active:changed'
  *
  * @example
  * ```ts
@@ -86,6 +91,14 @@ export enum ActiveItemEvent {
   Changed = 'active:changed',
 }
 
+/**
+ * Events emitted by the ActiveItem plugin.
+ * Pass as the desk's `TEvents` to get typed listeners.
+ */
+export interface ActiveItemPluginEvents<T = unknown> {
+  'active:changed': { id?: string | number; data?: T };
+}
+
 /**
  * Create an ActiveItem plugin for DeskCore.
  * Adds methods and computed properties to manage an active item.
@@ -93,7 +106,7 @@ export enum ActiveItemEvent {
  * @returns {ActiveItemPlugin<T>} The plugin instance.
  */
 export const createActiveItemPlugin = <T = unknown>(): ActiveItemPlugin<T> => {
-  let deskInstance: DeskCore<T> | null = null;
+  let deskInstance: DeskCore<T, any, ActiveItemPluginEvents<T>> | null = null;
 
   // Add reactive activeId state
   const activeId = ref<string | number | null>(null);
@@ -102,7 +115,7 @@ export const createActiveItemPlugin = <T = unknown>(): ActiveItemPlugin<T> => {
     name: 'active-item',
     version: '1.0.0',
 
-    install: (desk: DeskCore<T>) => {
+    install: (desk: DeskCore<T, any, ActiveItemPluginEvents<T>>) => {
       deskInstance = desk;
 
       (desk as any).activeId = activeId;
@@ -130,7 +143,7 @@ export const createActiveItemPlugin = <T = unknown>(): ActiveItemPlugin<T> => {
         if (id === null) {
           activeId.value = null;
           // Emit with undefined instead of null for type safety
-          deskWithActive.emit(ActiveItemEvent.Changed as any, {
+          deskInstance!.emit(ActiveItemEvent.Changed, {
             id: undefined,
             data: undefined,
           });
@@ -154,7 +167,7 @@ export const createActiveItemPlugin = <T = unknown>(): ActiveItemPlugin<T> => {
         if (!deskWithActive.has(id)) return false;
 
         activeId.value = id;
-        deskWithActive.emit(ActiveItemEvent.Changed as any, {
+        deskInstance!.emit(ActiveItemEvent.Changed, {
           id,
           data: deskWithActive.get(id)?.data,
         });
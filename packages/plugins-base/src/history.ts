@@ -22,18 +22,27 @@ export interface HistoryPluginMethods<T> extends CheckInPluginMethods<T> {
   /**
    * Get history filtered by action type.
    */
-  getHistoryByAction(action: 'check-in' | 'check-out' | 'update'): HistoryEntry<T>[];
+  getHistoryByAction(action: HistoryAction): HistoryEntry<T>[];
 }
 
 export interface HistoryPlugin<T> extends CheckInPlugin<T, HistoryPluginMethods<T>> {
   methods: HistoryPluginMethods<T>;
 }
 
+export type HistoryAction = 'check-in' | 'check-out' | 'update' | 'transfer';
+
 export interface HistoryEntry<T = unknown> {
-  action: 'check-in' | 'check-out' | 'update';
+  action: HistoryAction;
   id: string | number;
   data?: T;
   timestamp: number;
+  /** Transfers only: where the item came from and went to */
+  transfer?: {
+    direction: 'out' | 'in';
+    from: string;
+    to: string;
+    targetId: string | number;
+  };
 }
 
 export interface HistoryOptions {
@@ -111,6 +120,25 @@ export const createHistoryPlugin = <T = unknown>(options?: HistoryOptions): Hist
       }
     },
 
+    // A transfer is a single entry, not a check-out followed by a check-in
+    onTransfer(transfer) {
+      history.value.push({
+        action: 'transfer',
+        id: transfer.direction === 'out' ? transfer.id : transfer.targetId,
+        data: transfer.data as any,
+        timestamp: Date.now(),
+        transfer: {
+          direction: transfer.direction,
+          from: transfer.from.deskId,
+          to: transfer.to.deskId,
+          targetId: transfer.targetId,
+        },
+      });
+      if (history.value.length > maxHistory) {
+        history.value.shift();
+      }
+    },
+
     methods: {
       /**
        * Get the history of operations
@@ -140,7 +168,7 @@ export const createHistoryPlugin = <T = unknown>(options?: HistoryOptions): Hist
       /**
        * Get history filtered by action type
        */
-      getHistoryByAction(action: 'check-in' | 'check-out' | 'update'): HistoryEntry<T>[] {
+      getHistoryByAction(action: HistoryAction): HistoryEntry<T>[] {
         const history = (deskInstance as any).history?.value || [];
         return history.filter((entry: HistoryEntry<T>) => entry.action === action);
       },